@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { signPaymentAuthorization } from '@/lib/x402/sign';
 import { getBuyerAddress } from '@/lib/evm/wallet';
+import { getRequestLogger } from '@/lib/logger';
 
 export async function POST(request: NextRequest) {
   try {
@@ -46,7 +47,7 @@ export async function POST(request: NextRequest) {
       address: buyerAddress,
     });
   } catch (error) {
-    console.error('Error creating payment header:', error);
+    getRequestLogger(request, 'demo').error('Error creating payment header', { error });
     return NextResponse.json(
       { 
         error: 'Failed to create payment authorization',
@@ -0,0 +1,135 @@
+/**
+ * POST /api/facilitator/access-pass - Redeems one request of an access pass
+ *
+ * Request body:
+ * {
+ *   "token": "<access pass token>",
+ *   "group": "/api/protected/weather"
+ * }
+ *
+ * Response:
+ * {
+ *   "valid": true,
+ *   "remaining": 9,       // omitted for passes limited only by time
+ *   "expiresAt": 1700000000
+ * }
+ * or
+ * {
+ *   "valid": false,
+ *   "error": "Access pass used up"
+ * }
+ *
+ * Requests must be signed by a registered seller (X-402-Seller, X-402-Timestamp and
+ * X-402-Signature; see lib/x402/seller-auth.ts), so only sellers can spend a pass's uses,
+ * and a seller can only redeem passes bought from it.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorResponse } from '@/types/x402';
+import { verifyAccessPass } from '@/lib/x402/access-pass';
+import { getAccessPassStore } from '@/lib/x402/access-pass-store';
+import { authenticateSeller } from '@/lib/x402/seller-auth';
+import { enforceRateLimit } from '@/lib/x402/rate-limit';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Only requests signed by a registered seller are served (the signature covers the raw body)
+    const rawBody = await request.text();
+    const auth = await authenticateSeller(request, rawBody);
+    if ('error' in auth) {
+      const errorResponse: ErrorResponse = {
+        error: auth.error,
+        code: auth.code,
+      };
+      return NextResponse.json(errorResponse, {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
+    const limited = await enforceRateLimit(request, { apiKey: auth.seller.id });
+    if (limited) {
+      return limited;
+    }
+
+    const body = JSON.parse(rawBody);
+    if (typeof body?.token !== 'string' || typeof body?.group !== 'string') {
+      const errorResponse: ErrorResponse = {
+        error: 'Missing required fields: token and group',
+        code: 'INVALID_REQUEST',
+      };
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      });
+    }
+
+    // Passes are only redeemed for the seller they were bought from
+    const result = await verifyAccessPass(body.token, body.group, auth.seller.id);
+    if ('error' in result) {
+      return NextResponse.json({ valid: false, error: result.error }, {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      });
+    }
+
+    const { pass } = result;
+    let remaining: number | undefined;
+    if (pass.maxUses !== undefined) {
+      const left = await getAccessPassStore().use(pass.id, pass.maxUses, pass.expiresAt);
+      if (left === null) {
+        return NextResponse.json({ valid: false, error: 'Access pass used up' }, {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        });
+      }
+      remaining = left;
+    }
+
+    return NextResponse.json({ valid: true, remaining, expiresAt: pass.expiresAt }, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
+      },
+    });
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: error instanceof Error ? error.message : 'Failed to redeem access pass',
+      code: 'INTERNAL_ERROR',
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
+    },
+  });
+}
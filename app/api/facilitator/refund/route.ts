@@ -0,0 +1,127 @@
+/**
+ * POST /api/facilitator/refund - Refunds a confirmed settlement to its payer
+ *
+ * The seller that was paid authorizes the refund either by signing the request with
+ * its API key (see lib/x402/seller-auth.ts) or by signing
+ * getRefundMessage(settlementId, amount, refundId) (EIP-191) with the address that
+ * was paid. Refunds are sent from the seller wallet (SELLER_PRIVATE_KEY), so only
+ * settlements paid to its address can be refunded, and are recorded on the
+ * settlement: the total refunded never exceeds the amount settled, and
+ * repeating a refundId returns the original refund.
+ *
+ * Request body:
+ * {
+ *   "settlementId": "0xpayer:0xnonce",
+ *   "amount": "500000000000000000",
+ *   "refundId": "upstream-failure-42",   // optional for signed requests
+ *   "signature": "0x..."                 // instead of a signed request
+ * }
+ *
+ * Response:
+ * {
+ *   "success": true,
+ *   "refundId": "upstream-failure-42",
+ *   "transactionHash": "0x...",
+ *   "refundedAmount": "500000000000000000"
+ * }
+ * or
+ * {
+ *   "success": false,
+ *   "error": "...",
+ *   "code": "REFUND_EXCEEDS_PAYMENT"
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorResponse, RefundRequest } from '@/types/x402';
+import { refundX402Payment } from '@/lib/x402/refund';
+import { authenticateSeller } from '@/lib/x402/seller-auth';
+import { SELLER_HEADER } from '@/lib/x402/sellers';
+import { enforceRateLimit } from '@/lib/x402/rate-limit';
+import { getRequestId, getRequestLogger } from '@/lib/logger';
+
+const STATUS_BY_CODE: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  SETTLEMENT_NOT_FOUND: 404,
+  REFUND_ID_REUSED: 422,
+  REFUND_EXCEEDS_PAYMENT: 422,
+  SETTLEMENT_NOT_CONFIRMED: 422,
+  REFUND_UNAVAILABLE: 422,
+  SELLER_WALLET_MISMATCH: 403,
+};
+
+export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request);
+  const log = getRequestLogger(request, 'facilitator', requestId);
+  try {
+    const rawBody = await request.text();
+
+    // Requests naming a seller must be signed by it; others need a refund signature
+    let seller = null;
+    if (request.headers.get(SELLER_HEADER)) {
+      const auth = await authenticateSeller(request, rawBody);
+      if ('error' in auth) {
+        const errorResponse: ErrorResponse = {
+          error: auth.error,
+          code: auth.code,
+        };
+        return NextResponse.json(errorResponse, {
+          status: 401,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+          },
+        });
+      }
+      seller = auth.seller;
+
+      const limited = await enforceRateLimit(request, { apiKey: seller.id });
+      if (limited) {
+        return limited;
+      }
+    }
+
+    const body: RefundRequest = JSON.parse(rawBody);
+    const result = await refundX402Payment(body, seller, log);
+
+    return NextResponse.json(result, {
+      status: result.success ? 200 : (result.code && STATUS_BY_CODE[result.code]) || 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
+      },
+    });
+  } catch (error) {
+    log.error('POST /api/facilitator/refund: Unexpected error', { error });
+    const errorResponse: ErrorResponse = {
+      error: error instanceof Error ? error.message : 'Refund failed',
+      code: 'INTERNAL_ERROR',
+      details: {
+        requestId,
+      },
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
+    },
+  });
+}
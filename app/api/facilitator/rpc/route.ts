@@ -0,0 +1,56 @@
+/**
+ * GET /api/facilitator/rpc - Returns the health of each network's RPC endpoints (debugging)
+ *
+ * Response:
+ * [
+ *   {
+ *     "network": "polkadot-hub-testnet",
+ *     "chainId": 420420422,
+ *     "strategy": "fallback",
+ *     "endpoints": [{ "url": "https://...", "healthy": true, "blockNumber": 1234, "latencyMs": 80, ... }]
+ *   }
+ * ]
+ */
+
+import { NextResponse } from 'next/server';
+import type { ErrorResponse } from '@/types/x402';
+import { getProviderPoolStates } from '@/lib/evm/provider-pool';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getProviderPoolStates(), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      },
+    });
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: error instanceof Error ? error.message : 'Failed to get RPC provider state',
+      code: 'INTERNAL_ERROR',
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
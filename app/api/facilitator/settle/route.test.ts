@@ -0,0 +1,103 @@
+/**
+ * POST /api/facilitator/settle tests
+ * Two sellers are registered; transactions are never sent (the transaction manager is mocked)
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { ethers } from 'ethers';
+import type { PaymentRequirements } from '@/types/x402';
+import { getSellerAuthHeaders } from '@/lib/x402/seller-auth';
+import { getSeller, type Seller } from '@/lib/x402/sellers';
+import { signPaymentAuthorization } from '@/lib/x402/sign';
+import { InMemoryNonceStore, setNonceStore } from '@/lib/x402/nonce-store';
+import { InMemorySettlementStore, setSettlementStore } from '@/lib/x402/settlement-store';
+import { POST } from './route';
+
+const { send, SELLER_A, SELLER_B } = vi.hoisted(() => {
+  process.env.SELLER_A_API_KEY = 'seller-a-key';
+  process.env.SELLER_B_API_KEY = 'seller-b-key';
+  return {
+    send: vi.fn(),
+    SELLER_A: '0x000000000000000000000000000000000000000A',
+    SELLER_B: '0x000000000000000000000000000000000000000B',
+  };
+});
+
+vi.mock('@/config/sellers.json', () => ({
+  default: {
+    sellers: [
+      { id: 'seller-a', payTo: SELLER_A, apiKeyEnv: 'SELLER_A_API_KEY' },
+      { id: 'seller-b', payTo: SELLER_B, apiKeyEnv: 'SELLER_B_API_KEY' },
+    ],
+  },
+}));
+
+vi.mock('@/lib/evm/tx-manager', () => ({
+  getTransactionManager: vi.fn(() => ({ send })),
+  getManagedTransaction: vi.fn(() => null),
+}));
+
+const SETTLE_URL = 'http://localhost:3000/api/facilitator/settle';
+
+let nonces: InMemoryNonceStore;
+
+function requirements(payTo: string): PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'polkadot-hub-testnet',
+    maxAmountRequired: ethers.parseEther('1').toString(),
+    resource: '/api/protected/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo,
+    maxTimeoutSeconds: 300,
+    asset: 'native',
+    extra: {},
+  };
+}
+
+async function settleAs(seller: Seller, body: unknown): Promise<Response> {
+  const rawBody = JSON.stringify(body);
+  const headers = await getSellerAuthHeaders(seller, 'POST', SETTLE_URL, rawBody);
+  return POST(new NextRequest(SETTLE_URL, { method: 'POST', headers, body: rawBody }));
+}
+
+beforeEach(() => {
+  setSettlementStore(new InMemorySettlementStore());
+  nonces = new InMemoryNonceStore();
+  setNonceStore(nonces);
+  send.mockReset();
+});
+
+describe('settling another seller\'s authorization', () => {
+  it('rejects an authorization made out to another seller under the caller\'s payTo', async () => {
+    const payload = await signPaymentAuthorization(requirements(ethers.getAddress(SELLER_B)));
+
+    const response = await settleAs(getSeller('seller-a') as Seller, {
+      payload,
+      details: requirements(ethers.getAddress(SELLER_A)),
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ success: false, code: 'PAYTO_MISMATCH' });
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('rejects it from spec clients too, leaving the nonce unused', async () => {
+    const payload = await signPaymentAuthorization(requirements(ethers.getAddress(SELLER_B)));
+    const paymentPayload = JSON.parse(Buffer.from(payload, 'base64').toString('utf-8'));
+
+    const response = await settleAs(getSeller('seller-a') as Seller, {
+      x402Version: 1,
+      paymentPayload,
+      paymentRequirements: requirements(ethers.getAddress(SELLER_A)),
+    });
+
+    expect(await response.json()).toMatchObject({ success: false, transaction: '' });
+    expect(send).not.toHaveBeenCalled();
+    const { from, nonce } = paymentPayload.payload.authorization;
+    expect(await nonces.consume(from, nonce, Math.floor(Date.now() / 1000) + 60)).toBe(true);
+  });
+});
@@ -1,6 +1,25 @@
 /**
  * GET /api/facilitator/settle - Returns information about the settle endpoint
  * POST /api/facilitator/settle - Settles an x402 payment by signing and broadcasting the transaction
+ *
+ * Settlement is idempotent: an optional `Idempotency-Key` header (default: the
+ * authorization's payer and nonce) maps to a stored record, and repeated calls
+ * return the original transactionHash or in-flight status instead of re-broadcasting.
+ *
+ * With `"mode": "async"` the endpoint returns 202 right after broadcast with a
+ * settlementId; poll GET /api/facilitator/settlements/{settlementId} for status.
+ *
+ * For the "upto" scheme, `"amount"` settles only the consumed part of the
+ * authorized maximum (defaults to the full authorization).
+ *
+ * Requests must be signed by a registered seller (X-402-Seller, X-402-Timestamp and
+ * X-402-Signature; see lib/x402/seller-auth.ts). Payments outside the seller's
+ * address, networks, assets and routes are rejected, as are authorizations made
+ * out to another address than the requirements' payTo.
+ *
+ * Spec clients (x402 v1/v2) may instead send
+ * { "x402Version": 1, "paymentPayload": {...}, "paymentRequirements": {...} }
+ * and receive { "success": true, "transaction": "0x...", "network": "...", "payer": "0x..." }
  * 
  * Request body:
  * {
@@ -16,7 +35,8 @@
  * Response:
  * {
  *   "success": true,
- *   "transactionHash": "0x..."
+ *   "transactionHash": "0x...",
+ *   "receipt": "<signed receipt, once confirmed>"
  * }
  * or
  * {
@@ -26,8 +46,19 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { SettleRequest, SettlementResult, ErrorResponse } from '@/types/x402';
+import type { SettleRequest, SettlementResult, ErrorResponse, FacilitatorRequest } from '@/types/x402';
 import { settleX402Payment } from '@/lib/x402/settle';
+import {
+  fromFacilitatorRequest,
+  getPayer,
+  isSupportedX402Version,
+  SUPPORTED_X402_VERSIONS,
+  toFacilitatorSettleResponse,
+} from '@/lib/x402/protocol';
+import { checkSellerPayment } from '@/lib/x402/sellers';
+import { authenticateSeller } from '@/lib/x402/seller-auth';
+import { enforceRateLimit, getPayloadPayer } from '@/lib/x402/rate-limit';
+import { getRequestId, getRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
   return NextResponse.json(
@@ -38,16 +69,22 @@ export async function GET(request: NextRequest) {
       requestFormat: {
         payload: 'string (hex-encoded payment payload)',
         details: {
-          x402Version: 'number (must be 1)',
+          x402Version: `number (${SUPPORTED_X402_VERSIONS.join(' or ')})`,
           scheme: 'string (e.g., "exact")',
           network: 'string (e.g., "polkadot-hub-testnet")',
           extra: 'object (optional, network-specific configuration)',
         },
+        mode: 'string (optional, "sync" (default) or "async")',
+        amount: 'string (optional, "upto" scheme only: consumed amount in smallest units)',
       },
       responseFormat: {
         success: 'boolean',
         transactionHash: 'string (optional, if success is true)',
         error: 'string (optional, if success is false)',
+        status: 'string (pending | confirmed | failed)',
+        settlementId: 'string (poll /api/facilitator/settlements/{settlementId})',
+        blockNumber: 'number (optional, once included in a block)',
+        replayed: 'boolean (optional, true if an earlier settlement was returned)',
       },
       warning: 'This endpoint requires a valid FACILITATOR_PRIVATE_KEY and sufficient funds for gas fees',
     },
@@ -57,16 +94,75 @@ export async function GET(request: NextRequest) {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
       },
     }
   );
 }
 
 export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request);
+  const log = getRequestLogger(request, 'facilitator', requestId);
   try {
+    // Only requests signed by a registered seller are served (the signature covers the raw body)
+    const rawBody = await request.text();
+    const auth = await authenticateSeller(request, rawBody);
+    if ('error' in auth) {
+      const errorResponse: ErrorResponse = {
+        error: auth.error,
+        code: auth.code,
+      };
+      return NextResponse.json(errorResponse, {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
     // Parse request body
-    const body: SettleRequest = await request.json();
+    const body: SettleRequest & Partial<FacilitatorRequest> = JSON.parse(rawBody);
+
+    // Each seller and each paying address has its own request budget
+    const limited = await enforceRateLimit(request, {
+      apiKey: auth.seller.id,
+      payer: getPayloadPayer(body.paymentPayload || body.paymentHeader || body.payload),
+    });
+    if (limited) {
+      return limited;
+    }
+
+    // Spec clients send paymentPayload/paymentRequirements and expect a spec response (always 200)
+    if (body.paymentRequirements) {
+      const specRequest = fromFacilitatorRequest(body as FacilitatorRequest);
+      const sellerCheck = specRequest ? checkSellerPayment(auth.seller, specRequest.requirements) : null;
+      const result: SettlementResult = !specRequest
+        ? { success: false, error: 'Missing or invalid paymentPayload' }
+        : sellerCheck
+          ? { success: false, error: sellerCheck.error, code: sellerCheck.code }
+          : await settleX402Payment(specRequest.payload, specRequest.requirements, {
+            idempotencyKey: request.headers.get('Idempotency-Key') || undefined,
+            logger: log,
+          });
+
+      return NextResponse.json(
+        toFacilitatorSettleResponse(
+          result,
+          specRequest?.requirements.network || '',
+          specRequest?.requirements.x402Version,
+          specRequest ? getPayer(specRequest.payment) : undefined
+        ),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
+          },
+        }
+      );
+    }
 
     // Validate request structure
     if (!body.payload || typeof body.payload !== 'string') {
@@ -96,9 +192,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate details structure
-    if (!body.details.x402Version || body.details.x402Version !== 1) {
+    if (!isSupportedX402Version(body.details.x402Version)) {
       const errorResponse: ErrorResponse = {
-        error: 'Invalid x402Version. Only version 1 is supported.',
+        error: `Invalid x402Version. Supported versions: ${SUPPORTED_X402_VERSIONS.join(', ')}.`,
         code: 'INVALID_VERSION',
       };
       return NextResponse.json(errorResponse, {
@@ -122,6 +218,19 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    if (body.amount !== undefined && (typeof body.amount !== 'string' || !/^\d+$/.test(body.amount))) {
+      const errorResponse: ErrorResponse = {
+        error: 'Invalid amount: must be a non-negative integer string',
+        code: 'INVALID_AMOUNT',
+      };
+      return NextResponse.json(errorResponse, {
+        status: 400,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
     if (!body.details.network) {
       const errorResponse: ErrorResponse = {
         error: 'Missing network in details',
@@ -135,34 +244,52 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Settle the payment
-    console.log('POST /api/facilitator/settle: Starting settlement', {
-      payloadLength: body.payload?.length,
-      payloadType: typeof body.payload,
-      network: body.details?.network,
-      scheme: body.details?.scheme,
-    });
+    // Sellers are only paid as their registration allows
+    const sellerCheck = checkSellerPayment(auth.seller, body.details);
+    if (sellerCheck) {
+      const errorResponse: ErrorResponse = {
+        error: sellerCheck.error,
+        code: sellerCheck.code,
+      };
+      return NextResponse.json(errorResponse, {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
 
+    // Settle the payment
     const result: SettlementResult = await settleX402Payment(
       body.payload,
-      body.details
+      body.details,
+      {
+        idempotencyKey: request.headers.get('Idempotency-Key') || undefined,
+        mode: body.mode === 'async' ? 'async' : 'sync',
+        amount: body.amount,
+        logger: log,
+      }
     );
 
-    console.log('POST /api/facilitator/settle: Settlement result', {
+    log.info('POST /api/facilitator/settle: Settlement result', {
+      seller: auth.seller.id,
+      settlementId: result.settlementId,
       success: result.success,
+      status: result.status,
       transactionHash: result.transactionHash,
       error: result.error,
+      code: result.code,
     });
 
     // Return appropriate status code based on settlement result
     if (result.success) {
       return NextResponse.json(result, {
-        status: 200,
+        status: result.status === 'pending' ? 202 : 200,
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
         },
       });
     } else {
@@ -173,22 +300,32 @@ export async function POST(request: NextRequest) {
         result.error?.includes('Invalid') ||
         result.error?.includes('required');
 
+      // Replayed authorizations are a conflict with an earlier settlement
+      const status =
+        result.code === 'SETTLEMENT_IN_PROGRESS' ? 202 :
+        result.code === 'IDEMPOTENCY_KEY_REUSED' ? 422 :
+        result.code === 'NONCE_ALREADY_USED' ? 409 :
+        result.code === 'PAYTO_MISMATCH' ? 403 :
+        isClientError ? 400 : 500;
+
       return NextResponse.json(result, {
-        status: isClientError ? 400 : 500,
+        status,
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
         },
       });
     }
   } catch (error) {
+    // Internals stay in the logs; the request id lets the client point at them
+    log.error('POST /api/facilitator/settle: Unexpected error', { error });
     const errorResponse: ErrorResponse = {
       error: error instanceof Error ? error.message : 'Settlement failed',
       code: 'INTERNAL_ERROR',
       details: {
-        message: error instanceof Error ? error.stack : String(error),
+        requestId,
       },
     };
 
@@ -198,7 +335,7 @@ export async function POST(request: NextRequest) {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
       },
     });
   }
@@ -211,7 +348,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Idempotency-Key, X-402-Seller, X-402-Timestamp, X-402-Signature',
     },
   });
 }
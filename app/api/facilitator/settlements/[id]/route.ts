@@ -0,0 +1,76 @@
+/**
+ * GET /api/facilitator/settlements/[id] - Returns the status of a settlement
+ *
+ * Response:
+ * {
+ *   "settlementId": "0x...:0x...",
+ *   "status": "pending" | "confirmed" | "failed",
+ *   "network": "polkadot-hub-testnet",
+ *   "transactionHash": "0x...",
+ *   "blockNumber": 123,
+ *   "confirmations": 2
+ * }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorResponse, SettlementStatusResult } from '@/types/x402';
+import { getSettlementStatus } from '@/lib/x402/settle';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const result: SettlementStatusResult | null = await getSettlementStatus(decodeURIComponent(id));
+
+    if (!result) {
+      const errorResponse: ErrorResponse = {
+        error: 'Settlement not found',
+        code: 'SETTLEMENT_NOT_FOUND',
+      };
+      return NextResponse.json(errorResponse, {
+        status: 404,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+        },
+      });
+    }
+
+    return NextResponse.json(result, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      },
+    });
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: error instanceof Error ? error.message : 'Failed to get settlement status',
+      code: 'INTERNAL_ERROR',
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
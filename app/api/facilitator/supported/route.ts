@@ -2,47 +2,73 @@
  * GET /api/facilitator/supported
  * Returns the payment kinds supported by this facilitator
  * 
+ * Derived from the network registry (config/networks.json)
+ * Networks with a facilitator fee (config/fees.json) advertise its schedule in
+ * `extra.fee`; it applies to native payments and sellers may have their own schedule
+ * 
  * Response format per x402 protocol:
  * [
  *   {
  *     "x402Version": 1,
  *     "scheme": "exact",
  *     "network": "polkadot-hub-testnet",
- *     "extra": {}
- *   }
+ *     "extra": { "chainId": 420420422, "assets": ["native"], "receiptSigner": "0x..." }
+ *   },
+ *   {
+ *     "x402Version": 1,
+ *     "scheme": "upto",
+ *     "network": "polkadot-hub-testnet",
+ *     "extra": { "chainId": 420420422, "assets": ["native"], "receiptSigner": "0x..." }
+ *   },
+ *   {
+ *     "x402Version": 2,
+ *     "scheme": "exact",
+ *     "network": "eip155:420420422",
+ *     "extra": { "chainId": 420420422, "assets": ["native"], "receiptSigner": "0x..." }
+ *   },
+ *   ...
  * ]
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import type { SupportedPayment } from '@/types/x402';
-import { getSupportedNetworks } from '@/lib/evm/networks';
-import { env } from '@/lib/env';
+import { getNetworkConfig, getSupportedNetworks } from '@/lib/evm/networks';
+import { SUPPORTED_X402_VERSIONS, toCaip2Network } from '@/lib/x402/protocol';
+import { addresses } from '@/lib/env';
+import { getFeeSchedule } from '@/lib/x402/fees';
 
 export async function GET(request: NextRequest) {
   try {
     const supportedPayments: SupportedPayment[] = [];
 
-    // Get all standard networks
-    const standardNetworks = getSupportedNetworks();
-    
-    // Add standard networks
-    for (const network of standardNetworks) {
-      supportedPayments.push({
-        x402Version: 1,
-        scheme: 'exact',
-        network,
-        extra: {},
-      });
-    }
-
-    // If no networks configured, return at least the default
-    if (supportedPayments.length === 0) {
-      supportedPayments.push({
-        x402Version: 1,
-        scheme: 'exact',
-        network: env.NETWORK,
-        extra: {},
-      });
+    // Add every configured network for every protocol version (v2 names networks by CAIP-2 chain id)
+    // "upto" settles metered usage, which only native payments can do partially
+    for (const x402Version of SUPPORTED_X402_VERSIONS) {
+      for (const network of getSupportedNetworks()) {
+        const { chainId, assets } = getNetworkConfig(network);
+        const networkId = x402Version === 2 ? toCaip2Network(network) : network;
+        const hasNative = assets.some((asset) => asset.address === 'native');
+        const fee = hasNative ? getFeeSchedule(network) : null;
+        supportedPayments.push({
+          x402Version,
+          scheme: 'exact',
+          network: networkId,
+          extra: {
+            chainId,
+            assets: assets.map((asset) => asset.address),
+            receiptSigner: addresses.facilitator,
+            ...(fee && { fee }),
+          },
+        });
+        if (hasNative) {
+          supportedPayments.push({
+            x402Version,
+            scheme: 'upto',
+            network: networkId,
+            extra: { chainId, assets: ['native'], receiptSigner: addresses.facilitator, ...(fee && { fee }) },
+          });
+        }
+      }
     }
 
     return NextResponse.json(supportedPayments, {
@@ -0,0 +1,57 @@
+/**
+ * GET /api/facilitator/transactions - Returns the transaction manager queues (debugging)
+ *
+ * Response:
+ * [
+ *   {
+ *     "address": "0x...",
+ *     "network": "polkadot-hub-testnet",
+ *     "nextNonce": 42,
+ *     "queued": 0,
+ *     "pending": [{ "nonce": 41, "hash": "0x...", "bumps": 1, ... }]
+ *   }
+ * ]
+ */
+
+import { NextResponse } from 'next/server';
+import type { ErrorResponse } from '@/types/x402';
+import { getTransactionManagerStates } from '@/lib/evm/tx-manager';
+
+export async function GET() {
+  try {
+    return NextResponse.json(getTransactionManagerStates(), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+      },
+    });
+  } catch (error) {
+    const errorResponse: ErrorResponse = {
+      error: error instanceof Error ? error.message : 'Failed to get transaction manager state',
+      code: 'INTERNAL_ERROR',
+    };
+
+    return NextResponse.json(errorResponse, {
+      status: 500,
+      headers: {
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*',
+      },
+    });
+  }
+}
+
+// Handle OPTIONS for CORS
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+    },
+  });
+}
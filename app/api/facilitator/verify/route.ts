@@ -23,11 +23,30 @@
  *   "valid": false,
  *   "error": "..."
  * }
+ *
+ * Requests must be signed by a registered seller (X-402-Seller, X-402-Timestamp and
+ * X-402-Signature; see lib/x402/seller-auth.ts). Payments outside the seller's
+ * address, networks, assets and routes are rejected.
+ *
+ * Spec clients (x402 v1/v2) may instead send
+ * { "x402Version": 1, "paymentPayload": {...}, "paymentRequirements": {...} }
+ * and receive { "isValid": true, "payer": "0x..." } or { "isValid": false, "invalidReason": "..." }
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import type { VerifyRequest, VerificationResult, ErrorResponse } from '@/types/x402';
+import type { VerifyRequest, VerificationResult, ErrorResponse, FacilitatorRequest } from '@/types/x402';
 import { verifyX402Payment } from '@/lib/x402/verify';
+import {
+  fromFacilitatorRequest,
+  getPayer,
+  isSupportedX402Version,
+  SUPPORTED_X402_VERSIONS,
+  toFacilitatorVerifyResponse,
+} from '@/lib/x402/protocol';
+import { checkSellerPayment } from '@/lib/x402/sellers';
+import { authenticateSeller } from '@/lib/x402/seller-auth';
+import { enforceRateLimit, getPayloadPayer } from '@/lib/x402/rate-limit';
+import { getRequestId, getRequestLogger } from '@/lib/logger';
 
 export async function GET(request: NextRequest) {
   return NextResponse.json(
@@ -38,7 +57,7 @@ export async function GET(request: NextRequest) {
       requestFormat: {
         payload: 'string (hex-encoded payment payload)',
         details: {
-          x402Version: 'number (must be 1)',
+          x402Version: `number (${SUPPORTED_X402_VERSIONS.join(' or ')})`,
           scheme: 'string (e.g., "exact")',
           network: 'string (e.g., "polkadot-hub-testnet")',
           extra: 'object (optional, network-specific configuration)',
@@ -56,16 +75,74 @@ export async function GET(request: NextRequest) {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
       },
     }
   );
 }
 
 export async function POST(request: NextRequest) {
+  const requestId = getRequestId(request);
+  const log = getRequestLogger(request, 'facilitator', requestId);
   try {
+    // Only requests signed by a registered seller are served (the signature covers the raw body)
+    const rawBody = await request.text();
+    const auth = await authenticateSeller(request, rawBody);
+    if ('error' in auth) {
+      const errorResponse: ErrorResponse = {
+        error: auth.error,
+        code: auth.code,
+      };
+      return NextResponse.json(errorResponse, {
+        status: 401,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
     // Parse request body
-    const body: VerifyRequest = await request.json();
+    const body: VerifyRequest & Partial<FacilitatorRequest> = JSON.parse(rawBody);
+
+    // Each seller and each paying address has its own request budget
+    const limited = await enforceRateLimit(request, {
+      apiKey: auth.seller.id,
+      payer: getPayloadPayer(body.paymentPayload || body.paymentHeader || body.payload),
+    });
+    if (limited) {
+      return limited;
+    }
+
+    // Spec clients send paymentPayload/paymentRequirements and expect a spec response (always 200)
+    if (body.paymentRequirements) {
+      const specRequest = fromFacilitatorRequest(body as FacilitatorRequest);
+      const sellerCheck = specRequest ? checkSellerPayment(auth.seller, specRequest.requirements) : null;
+      const result: VerificationResult = !specRequest
+        ? { valid: false, error: 'Missing or invalid paymentPayload' }
+        : sellerCheck
+          ? { valid: false, error: sellerCheck.error, code: sellerCheck.code }
+          : await verifyX402Payment(specRequest.payload, specRequest.requirements);
+      log.info('POST /api/facilitator/verify: Verification result', {
+        seller: auth.seller.id,
+        payer: specRequest ? getPayer(specRequest.payment) : undefined,
+        valid: result.valid,
+        error: result.error,
+        code: result.code,
+      });
+
+      return NextResponse.json(
+        toFacilitatorVerifyResponse(result, specRequest ? getPayer(specRequest.payment) : undefined),
+        {
+          status: 200,
+          headers: {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
+          },
+        }
+      );
+    }
 
     // Validate request structure
     if (!body.payload || typeof body.payload !== 'string') {
@@ -95,9 +172,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate details structure
-    if (!body.details.x402Version || body.details.x402Version !== 1) {
+    if (!isSupportedX402Version(body.details.x402Version)) {
       const errorResponse: ErrorResponse = {
-        error: 'Invalid x402Version. Only version 1 is supported.',
+        error: `Invalid x402Version. Supported versions: ${SUPPORTED_X402_VERSIONS.join(', ')}.`,
         code: 'INVALID_VERSION',
       };
       return NextResponse.json(errorResponse, {
@@ -134,11 +211,34 @@ export async function POST(request: NextRequest) {
       });
     }
 
+    // Sellers are only paid as their registration allows
+    const sellerCheck = checkSellerPayment(auth.seller, body.details);
+    if (sellerCheck) {
+      const errorResponse: ErrorResponse = {
+        error: sellerCheck.error,
+        code: sellerCheck.code,
+      };
+      return NextResponse.json(errorResponse, {
+        status: 403,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+    }
+
     // Verify the payment
     const result: VerificationResult = await verifyX402Payment(
       body.payload,
       body.details
     );
+    log.info('POST /api/facilitator/verify: Verification result', {
+      seller: auth.seller.id,
+      payer: result.details?.from,
+      nonce: result.details?.nonce,
+      valid: result.valid,
+      error: result.error,
+      code: result.code,
+    });
 
     // Return appropriate status code based on verification result
     if (result.valid) {
@@ -148,26 +248,28 @@ export async function POST(request: NextRequest) {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
         },
       });
     } else {
       return NextResponse.json(result, {
-        status: 400,
+        status: result.code === 'NONCE_ALREADY_USED' ? 409 : 400,
         headers: {
           'Content-Type': 'application/json',
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
         },
       });
     }
   } catch (error) {
+    // Internals stay in the logs; the request id lets the client point at them
+    log.error('POST /api/facilitator/verify: Unexpected error', { error });
     const errorResponse: ErrorResponse = {
       error: error instanceof Error ? error.message : 'Verification failed',
       code: 'INTERNAL_ERROR',
       details: {
-        message: error instanceof Error ? error.stack : String(error),
+        requestId,
       },
     };
 
@@ -177,7 +279,7 @@ export async function POST(request: NextRequest) {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
       },
     });
   }
@@ -190,7 +292,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, X-402-Seller, X-402-Timestamp, X-402-Signature',
     },
   });
 }
@@ -0,0 +1,82 @@
+/**
+ * GET /api/metrics - Prometheus metrics of this facilitator (text exposition format)
+ *
+ * Exposes verify results by error reason, settlements by network, asset and result,
+ * settlement latency, amounts settled, 402 responses by route, RPC latency by
+ * provider and wallet balances (read from the chain at most once per
+ * WALLET_BALANCE_TTL_SECONDS, so frequent scrapes do not each cost RPC calls).
+ *
+ * When METRICS_TOKEN is set, scrapes must send `Authorization: Bearer <METRICS_TOKEN>`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { ErrorResponse } from '@/types/x402';
+import { getAllBalances } from '@/lib/evm/wallet';
+import { getSupportedNetworks } from '@/lib/evm/networks';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+import { METRICS_CONTENT_TYPE, renderMetrics, walletBalance } from '@/lib/metrics';
+
+/**
+ * Seconds the wallet balance gauges are served before being read again
+ */
+const WALLET_BALANCE_TTL_SECONDS = 60;
+
+let balancesRefreshedAt = 0;
+let balancesRefresh: Promise<void> | null = null;
+
+/**
+ * Refresh the wallet balance gauges on every configured network, unless read within the TTL
+ * Concurrent scrapes share one refresh; a network whose RPC fails keeps its last known balances
+ */
+async function collectWalletBalances(): Promise<void> {
+  if (Date.now() - balancesRefreshedAt < WALLET_BALANCE_TTL_SECONDS * 1000) {
+    return;
+  }
+  if (!balancesRefresh) {
+    balancesRefresh = readWalletBalances().finally(() => {
+      balancesRefreshedAt = Date.now();
+      balancesRefresh = null;
+    });
+  }
+  await balancesRefresh;
+}
+
+async function readWalletBalances(): Promise<void> {
+  await Promise.all(getSupportedNetworks().map(async (network) => {
+    try {
+      const balances = await getAllBalances(network);
+      for (const [wallet, { address, balanceFormatted }] of Object.entries(balances)) {
+        walletBalance.set({ network, wallet, address }, Number(balanceFormatted));
+      }
+    } catch (error) {
+      logger.warn('GET /api/metrics: Failed to read wallet balances', { network, error });
+    }
+  }));
+}
+
+export async function GET(request: NextRequest) {
+  if (env.METRICS_TOKEN && request.headers.get('Authorization') !== `Bearer ${env.METRICS_TOKEN}`) {
+    const errorResponse: ErrorResponse = {
+      error: 'Metrics require a bearer token',
+      code: 'UNAUTHORIZED',
+    };
+    return NextResponse.json(errorResponse, {
+      status: 401,
+      headers: {
+        'Content-Type': 'application/json',
+        'WWW-Authenticate': 'Bearer',
+      },
+    });
+  }
+
+  await collectWalletBalances();
+
+  return new NextResponse(renderMetrics(), {
+    status: 200,
+    headers: {
+      'Content-Type': METRICS_CONTENT_TYPE,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
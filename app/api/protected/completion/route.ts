@@ -0,0 +1,70 @@
+/**
+ * POST /api/protected/completion - Protected text completion endpoint
+ * Returns a canned completion for the prompt and charges per generated token.
+ * Protected by x402 payment middleware with the "upto" scheme: the buyer
+ * authorizes a maximum and only the tokens actually generated are settled.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMeteredPayment, getMeteredPaymentResponse, settleMeteredPayment } from '@/lib/x402/metered';
+import { RECEIPT_HEADER } from '@/lib/x402/receipt';
+
+/**
+ * Price per generated token (0.01 PAS, 18 decimals)
+ */
+const PRICE_PER_TOKEN = BigInt('10000000000000000');
+
+const COMPLETION = 'Polkadot Hub brings EVM smart contracts to the Polkadot ecosystem, so x402 payments can settle in native PAS within a single block.';
+
+export async function POST(request: NextRequest) {
+  const payment = getMeteredPayment(request);
+  if (!payment) {
+    return NextResponse.json(
+      { error: 'Missing metered payment' },
+      { status: 402 }
+    );
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const maxTokens = Number(body.maxTokens) > 0 ? Math.floor(Number(body.maxTokens)) : 100;
+
+  const tokens = COMPLETION.split(' ').slice(0, maxTokens);
+  const usage = BigInt(tokens.length) * PRICE_PER_TOKEN;
+
+  const settlement = await settleMeteredPayment(payment, usage);
+  if (!settlement.success) {
+    return NextResponse.json(
+      {
+        error: 'Payment settlement failed',
+        details: settlement.error,
+      },
+      {
+        status: 402,
+        headers: {
+          'X-402-Error': (settlement.error || 'Settlement failed').replace(/\n/g, ' ').substring(0, 200),
+        },
+      }
+    );
+  }
+
+  const response = NextResponse.json({
+    prompt: typeof body.prompt === 'string' ? body.prompt : '',
+    completion: tokens.join(' '),
+    usage: {
+      completionTokens: tokens.length,
+      amount: settlement.amount,
+    },
+  });
+  response.headers.set('X-Payment-Amount', settlement.amount);
+  if (settlement.settlementId) {
+    response.headers.set('X-Settlement-Id', settlement.settlementId);
+  }
+  if (settlement.transactionHash) {
+    response.headers.set('X-Settlement-Tx', settlement.transactionHash);
+  }
+  if (settlement.receipt) {
+    response.headers.set(RECEIPT_HEADER, settlement.receipt);
+  }
+  response.headers.set('X-Payment-Response', getMeteredPaymentResponse(settlement));
+  return response;
+}
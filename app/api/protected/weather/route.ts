@@ -1,12 +1,14 @@
 /**
  * GET /api/protected/weather - Protected weather API endpoint
  * Returns hardcoded weather data for Buenos Aires.
- * Protected by x402 payment middleware.
+ * Priced in config/pricing.json (settleAfterHandler): withX402 settles the payment
+ * only after a successful response.
  */
 
 import { NextResponse } from 'next/server';
+import { withX402 } from '@/lib/x402/middleware';
 
-export async function GET() {
+async function handler() {
   return NextResponse.json({
     city: 'Buenos Aires',
     temperature: 22,
@@ -16,3 +18,4 @@ export async function GET() {
   });
 }
 
+export const GET = withX402(handler);
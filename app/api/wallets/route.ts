@@ -6,6 +6,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAllBalances } from '@/lib/evm/wallet';
+import { getNetworkConfig } from '@/lib/evm/networks';
+import { env } from '@/lib/env';
 
 export async function GET(request: NextRequest) {
   try {
@@ -15,8 +17,8 @@ export async function GET(request: NextRequest) {
       {
         success: true,
         wallets: balances,
-        network: 'polkadot-hub-testnet',
-        currency: 'PAS',
+        network: env.NETWORK,
+        currency: getNetworkConfig(env.NETWORK).nativeCurrency.symbol,
       },
       {
         status: 200,
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import axios, { type AxiosInstance, type AxiosError, type InternalAxiosRequestConfig } from 'axios';
 import CodeBlock from '@/components/CodeBlock';
 import type { PaymentRequirements } from '@/types/x402';
+import { clientEnv } from '@/lib/env.client';
 
 interface DemoState {
   status: 'idle' | 'loading' | 'success' | 'error';
@@ -182,7 +183,7 @@ export default function DemoPage() {
       // Extract payment details from payment requirements or use defaults
       const paymentDetails = {
         amount: paymentAmount || paymentRequirements?.maxAmountRequired || '0',
-        network: paymentRequirements?.network || 'polkadot-hub-testnet',
+        network: paymentRequirements?.network || clientEnv.NETWORK,
         token: paymentRequirements?.asset === 'native' || !paymentRequirements?.asset 
           ? 'native' 
           : paymentRequirements?.asset || 'native',
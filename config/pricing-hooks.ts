@@ -0,0 +1,30 @@
+/**
+ * Dynamic pricing hooks
+ * Routes in config/pricing.json name one of these with `"hook"`; the returned
+ * amount is quoted in the 402 and enforced on the paid retry
+ */
+
+import type { PricingHook } from '@/lib/x402/pricing';
+
+/**
+ * Price per completion token (0.01 PAS, 18 decimals)
+ */
+const COMPLETION_PRICE_PER_TOKEN = BigInt('10000000000000000');
+
+export const PRICING_HOOKS: Record<string, PricingHook> = {
+  /**
+   * Completion maximum scales with the requested `maxTokens` (default 100)
+   */
+  completionMaxTokens: ({ body }) => {
+    let maxTokens = 100;
+    try {
+      const requested = Number(JSON.parse(body || '{}').maxTokens);
+      if (requested > 0) {
+        maxTokens = Math.floor(requested);
+      }
+    } catch {
+      // Unparseable bodies are priced at the default
+    }
+    return BigInt(maxTokens) * COMPLETION_PRICE_PER_TOKEN;
+  },
+};
@@ -0,0 +1,245 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title X402Escrow
+ * @notice Holds native PAS deposits for x402 buyers and releases them to sellers
+ *         when the facilitator redeems a buyer-signed EIP-712 PaymentAuthorization.
+ *         Only the facilitator may redeem: anyone else holding a signed authorization
+ *         (e.g. the seller) could otherwise take the full signed amount.
+ *
+ * The typed data matches `lib/x402/sign.ts`:
+ *   domain  = { name: "X402", version: "1", chainId, verifyingContract: address(this) }
+ *   message = PaymentAuthorization(address from,address to,uint256 amount,bytes32 nonce,
+ *                                  uint256 validAfter,uint256 validBefore,string resource,string network)
+ *
+ * For the "upto" scheme the signed amount is a maximum and redeemUpTo() pays only
+ * the metered amount; the nonce is spent either way.
+ *
+ * redeemWithFee() splits a payment between the seller and a fee recipient; the buyer
+ * signs the total, not the fee.
+ *
+ * Withdrawals are time-locked so a buyer cannot pull funds between receiving a
+ * resource and the facilitator settling the authorization for it. An unlocked
+ * withdrawal expires after `withdrawalWindow`, and the facilitator does not accept
+ * payments from a deposit while a withdrawal is pending (see withdrawalPending()).
+ */
+contract X402Escrow {
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    bytes32 public constant PAYMENT_AUTHORIZATION_TYPEHASH =
+        keccak256(
+            "PaymentAuthorization(address from,address to,uint256 amount,bytes32 nonce,uint256 validAfter,uint256 validBefore,string resource,string network)"
+        );
+
+    /// @notice Delay between requesting and executing a withdrawal
+    uint256 public immutable withdrawalDelay;
+
+    /// @notice How long an unlocked withdrawal can be executed before it must be requested again
+    uint256 public immutable withdrawalWindow;
+
+    /// @notice Account allowed to redeem authorizations (and take a fee out of them)
+    address public immutable facilitator;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(bytes32 => bool)) public nonceUsed;
+    mapping(address => uint256) public withdrawalUnlockAt;
+
+    event Deposited(address indexed account, uint256 amount);
+    event WithdrawalRequested(address indexed account, uint256 unlockAt);
+    event Withdrawn(address indexed account, uint256 amount);
+    event PaymentRedeemed(address indexed from, address indexed to, uint256 amount, bytes32 indexed nonce);
+    event FeeCollected(address indexed from, address indexed recipient, uint256 fee, bytes32 indexed nonce);
+
+    error InvalidSignature();
+    error AuthorizationExpired();
+    error AuthorizationNotYetValid();
+    error NonceAlreadyUsed();
+    error InsufficientBalance();
+    error AmountExceedsAuthorization();
+    error WithdrawalLocked();
+    error WithdrawalExpired();
+    error TransferFailed();
+    error NotFacilitator();
+    error FeeExceedsAmount();
+
+    constructor(uint256 withdrawalDelay_, uint256 withdrawalWindow_, address facilitator_) {
+        withdrawalDelay = withdrawalDelay_;
+        withdrawalWindow = withdrawalWindow_;
+        facilitator = facilitator_;
+    }
+
+    modifier onlyFacilitator() {
+        if (msg.sender != facilitator) revert NotFacilitator();
+        _;
+    }
+
+    receive() external payable {
+        deposit();
+    }
+
+    /// @notice Deposit native tokens for the caller
+    function deposit() public payable {
+        balanceOf[msg.sender] += msg.value;
+        emit Deposited(msg.sender, msg.value);
+    }
+
+    /// @notice Start the withdrawal time-lock for the caller
+    function requestWithdrawal() external {
+        uint256 unlockAt = block.timestamp + withdrawalDelay;
+        withdrawalUnlockAt[msg.sender] = unlockAt;
+        emit WithdrawalRequested(msg.sender, unlockAt);
+    }
+
+    /// @notice Withdraw deposited funds once the time-lock has passed, within the withdrawal window
+    function withdraw(uint256 amount) external {
+        uint256 unlockAt = withdrawalUnlockAt[msg.sender];
+        if (unlockAt == 0 || block.timestamp < unlockAt) revert WithdrawalLocked();
+        if (block.timestamp >= unlockAt + withdrawalWindow) revert WithdrawalExpired();
+        if (balanceOf[msg.sender] < amount) revert InsufficientBalance();
+
+        balanceOf[msg.sender] -= amount;
+        withdrawalUnlockAt[msg.sender] = 0;
+
+        (bool ok, ) = msg.sender.call{value: amount}("");
+        if (!ok) revert TransferFailed();
+        emit Withdrawn(msg.sender, amount);
+    }
+
+    /// @notice Whether `account` has requested a withdrawal that is not executed or expired yet
+    function withdrawalPending(address account) public view returns (bool) {
+        uint256 unlockAt = withdrawalUnlockAt[account];
+        return unlockAt != 0 && block.timestamp < unlockAt + withdrawalWindow;
+    }
+
+    /// @notice Move `amount` from `from`'s deposit to `to` using `from`'s signed authorization
+    function redeem(
+        address from,
+        address to,
+        uint256 amount,
+        bytes32 nonce,
+        uint256 validAfter,
+        uint256 validBefore,
+        string calldata resource,
+        string calldata network,
+        bytes calldata signature
+    ) external onlyFacilitator {
+        _checkAuthorization(from, to, amount, nonce, validAfter, validBefore, resource, network, signature);
+        _pay(from, to, amount, nonce);
+    }
+
+    /// @notice Move `amount` (at most the signed `maxAmount`) from `from`'s deposit to `to`
+    /// @dev Used by the x402 "upto" scheme, where the buyer signs a maximum and the seller meters usage
+    function redeemUpTo(
+        address from,
+        address to,
+        uint256 maxAmount,
+        bytes32 nonce,
+        uint256 validAfter,
+        uint256 validBefore,
+        string calldata resource,
+        string calldata network,
+        bytes calldata signature,
+        uint256 amount
+    ) external onlyFacilitator {
+        if (amount > maxAmount) revert AmountExceedsAuthorization();
+        _checkAuthorization(from, to, maxAmount, nonce, validAfter, validBefore, resource, network, signature);
+        _pay(from, to, amount, nonce);
+    }
+
+    /// @notice Move `amount` (at most the signed `maxAmount`) from `from`'s deposit,
+    ///         paying `fee` of it to `feeRecipient` and the rest to `to`
+    function redeemWithFee(
+        address from,
+        address to,
+        uint256 maxAmount,
+        bytes32 nonce,
+        uint256 validAfter,
+        uint256 validBefore,
+        string calldata resource,
+        string calldata network,
+        bytes calldata signature,
+        uint256 amount,
+        address feeRecipient,
+        uint256 fee
+    ) external onlyFacilitator {
+        if (amount > maxAmount) revert AmountExceedsAuthorization();
+        if (fee > amount) revert FeeExceedsAmount();
+        _checkAuthorization(from, to, maxAmount, nonce, validAfter, validBefore, resource, network, signature);
+        if (balanceOf[from] < amount) revert InsufficientBalance();
+
+        balanceOf[from] -= fee;
+        _pay(from, to, amount - fee, nonce);
+
+        if (fee > 0) {
+            (bool ok, ) = feeRecipient.call{value: fee}("");
+            if (!ok) revert TransferFailed();
+        }
+        emit FeeCollected(from, feeRecipient, fee, nonce);
+    }
+
+    /// @notice EIP-712 domain separator for this escrow
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(DOMAIN_TYPEHASH, keccak256("X402"), keccak256("1"), block.chainid, address(this))
+        );
+    }
+
+    function _checkAuthorization(
+        address from,
+        address to,
+        uint256 amount,
+        bytes32 nonce,
+        uint256 validAfter,
+        uint256 validBefore,
+        string calldata resource,
+        string calldata network,
+        bytes calldata signature
+    ) private view {
+        if (block.timestamp <= validAfter) revert AuthorizationNotYetValid();
+        if (block.timestamp >= validBefore) revert AuthorizationExpired();
+        if (nonceUsed[from][nonce]) revert NonceAlreadyUsed();
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                PAYMENT_AUTHORIZATION_TYPEHASH,
+                from,
+                to,
+                amount,
+                nonce,
+                validAfter,
+                validBefore,
+                keccak256(bytes(resource)),
+                keccak256(bytes(network))
+            )
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), structHash));
+        if (_recover(digest, signature) != from) revert InvalidSignature();
+    }
+
+    function _pay(address from, address to, uint256 amount, bytes32 nonce) private {
+        if (balanceOf[from] < amount) revert InsufficientBalance();
+
+        nonceUsed[from][nonce] = true;
+        balanceOf[from] -= amount;
+
+        if (amount > 0) {
+            (bool ok, ) = to.call{value: amount}("");
+            if (!ok) revert TransferFailed();
+        }
+        emit PaymentRedeemed(from, to, amount, nonce);
+    }
+
+    function _recover(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) revert InvalidSignature();
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        // Reject malleable signatures (EIP-2)
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) revert InvalidSignature();
+        address signer = ecrecover(digest, v, r, s);
+        if (signer == address(0)) revert InvalidSignature();
+        return signer;
+    }
+}
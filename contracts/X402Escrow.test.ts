@@ -0,0 +1,220 @@
+/**
+ * X402Escrow tests
+ * The contract is compiled with solc and deployed to an in-process ganache chain
+ */
+
+import { readFileSync } from 'node:fs';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import ganache from 'ganache';
+import solc from 'solc';
+import { ethers } from 'ethers';
+import { PAYMENT_AUTHORIZATION_TYPES } from '@/lib/x402/authorization';
+
+const DELAY = 600;
+const WINDOW = 300;
+const DEPOSIT = ethers.parseEther('10');
+
+const facilitator = ethers.Wallet.createRandom();
+const buyer = ethers.Wallet.createRandom();
+const seller = ethers.Wallet.createRandom();
+
+let artifact: { abi: ethers.InterfaceAbi; bytecode: string };
+let provider: ethers.BrowserProvider;
+let escrow: ethers.Contract;
+
+/**
+ * Compile contracts/X402Escrow.sol the way it is deployed (optimizer and via-IR)
+ */
+function compileEscrow(): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const input = {
+    language: 'Solidity',
+    sources: {
+      'X402Escrow.sol': { content: readFileSync(new URL('./X402Escrow.sol', import.meta.url), 'utf-8') },
+    },
+    settings: {
+      viaIR: true,
+      optimizer: { enabled: true, runs: 200 },
+      evmVersion: 'shanghai',
+      outputSelection: { '*': { '*': ['abi', 'evm.bytecode.object'] } },
+    },
+  };
+  const output = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter((error: { severity: string }) => error.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join('\n'));
+  }
+  const contract = output.contracts['X402Escrow.sol'].X402Escrow;
+  return { abi: contract.abi, bytecode: contract.evm.bytecode.object };
+}
+
+function as(wallet: ethers.HDNodeWallet): ethers.Contract {
+  return escrow.connect(wallet.connect(provider)) as ethers.Contract;
+}
+
+async function latestTimestamp(): Promise<number> {
+  return (await provider.getBlock('latest'))!.timestamp;
+}
+
+async function increaseTime(seconds: number): Promise<void> {
+  await provider.send('evm_increaseTime', [seconds]);
+  await provider.send('evm_mine', []);
+}
+
+/**
+ * Name of the custom error a call reverted with
+ * Pass a staticCall: ganache only returns revert data for eth_call
+ */
+async function revertOf(call: Promise<unknown>): Promise<string | undefined> {
+  try {
+    await call;
+  } catch (error) {
+    const data = (error as { data?: string }).data;
+    return (error as { revert?: { name: string } }).revert?.name
+      || (data ? escrow.interface.parseError(data)?.name : undefined);
+  }
+  return undefined;
+}
+
+async function signAuthorization(amount: bigint = ethers.parseEther('1')) {
+  const now = await latestTimestamp();
+  const authorization = {
+    from: buyer.address,
+    to: seller.address,
+    amount,
+    nonce: ethers.hexlify(ethers.randomBytes(32)),
+    validAfter: now - 60,
+    validBefore: now + 600,
+    resource: '/api/protected/weather',
+    network: 'polkadot-hub-testnet',
+  };
+  const domain = {
+    name: 'X402',
+    version: '1',
+    chainId: (await provider.getNetwork()).chainId,
+    verifyingContract: await escrow.getAddress(),
+  };
+  const signature = await buyer.signTypedData(domain, PAYMENT_AUTHORIZATION_TYPES, authorization);
+  const args = [
+    authorization.from,
+    authorization.to,
+    authorization.amount,
+    authorization.nonce,
+    authorization.validAfter,
+    authorization.validBefore,
+    authorization.resource,
+    authorization.network,
+    signature,
+  ];
+  return { authorization, signature, args };
+}
+
+beforeAll(() => {
+  artifact = compileEscrow();
+});
+
+beforeEach(async () => {
+  const balance = ethers.toQuantity(ethers.parseEther('1000'));
+  provider = new ethers.BrowserProvider(ganache.provider({
+    logging: { quiet: true },
+    chain: { hardfork: 'shanghai' },
+    wallet: {
+      accounts: [facilitator, buyer, seller].map((wallet) => ({ secretKey: wallet.privateKey, balance })),
+    },
+  }) as unknown as ethers.Eip1193Provider, undefined, { cacheTimeout: -1 });
+
+  const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, facilitator.connect(provider));
+  escrow = await factory.deploy(DELAY, WINDOW, facilitator.address) as ethers.Contract;
+  await escrow.waitForDeployment();
+  await (await as(buyer).deposit({ value: DEPOSIT })).wait();
+});
+
+describe('withdrawal lock', () => {
+  it('rejects withdrawals that were not requested', async () => {
+    expect(await revertOf(as(buyer).withdraw.staticCall(DEPOSIT))).toBe('WithdrawalLocked');
+  });
+
+  it('rejects withdrawals before the delay has passed', async () => {
+    await (await as(buyer).requestWithdrawal()).wait();
+    await increaseTime(DELAY - 30);
+
+    expect(await revertOf(as(buyer).withdraw.staticCall(DEPOSIT))).toBe('WithdrawalLocked');
+  });
+
+  it('allows the withdrawal within the window after the delay', async () => {
+    await (await as(buyer).requestWithdrawal()).wait();
+    await increaseTime(DELAY + 1);
+
+    await (await as(buyer).withdraw(DEPOSIT)).wait();
+    expect(await escrow.balanceOf(buyer.address)).toBe(BigInt(0));
+    expect(await escrow.withdrawalPending(buyer.address)).toBe(false);
+  });
+
+  it('expires an unlocked withdrawal after the window', async () => {
+    await (await as(buyer).requestWithdrawal()).wait();
+    await increaseTime(DELAY + WINDOW + 1);
+
+    expect(await revertOf(as(buyer).withdraw.staticCall(DEPOSIT))).toBe('WithdrawalExpired');
+    expect(await escrow.balanceOf(buyer.address)).toBe(DEPOSIT);
+  });
+
+  it('reports a withdrawal as pending from the request until the window ends', async () => {
+    expect(await escrow.withdrawalPending(buyer.address)).toBe(false);
+
+    await (await as(buyer).requestWithdrawal()).wait();
+    expect(await escrow.withdrawalPending(buyer.address)).toBe(true);
+
+    await increaseTime(DELAY + 1);
+    expect(await escrow.withdrawalPending(buyer.address)).toBe(true);
+
+    await increaseTime(WINDOW);
+    expect(await escrow.withdrawalPending(buyer.address)).toBe(false);
+  });
+});
+
+describe('redemption', () => {
+  it('pays the seller from the deposit and spends the nonce', async () => {
+    const { authorization, args } = await signAuthorization();
+    const sellerBalance = await provider.getBalance(seller.address);
+
+    await (await as(facilitator).redeem(...args)).wait();
+
+    expect(await provider.getBalance(seller.address)).toBe(sellerBalance + authorization.amount);
+    expect(await escrow.balanceOf(buyer.address)).toBe(DEPOSIT - authorization.amount);
+    expect(await escrow.nonceUsed(buyer.address, authorization.nonce)).toBe(true);
+    expect(await revertOf(as(facilitator).redeem.staticCall(...args))).toBe('NonceAlreadyUsed');
+  });
+
+  it('pays only the metered amount of an "upto" authorization', async () => {
+    const { authorization, args } = await signAuthorization();
+    const metered = authorization.amount / BigInt(4);
+    const sellerBalance = await provider.getBalance(seller.address);
+
+    await (await as(facilitator).redeemUpTo(...args, metered)).wait();
+
+    expect(await provider.getBalance(seller.address)).toBe(sellerBalance + metered);
+    expect(await escrow.balanceOf(buyer.address)).toBe(DEPOSIT - metered);
+    expect(await revertOf(as(facilitator).redeemUpTo.staticCall(...args, metered))).toBe('NonceAlreadyUsed');
+  });
+});
+
+describe('redemption access control', () => {
+  it('rejects redeem() from anyone but the facilitator', async () => {
+    const { args } = await signAuthorization();
+
+    expect(await revertOf(as(seller).redeem.staticCall(...args))).toBe('NotFacilitator');
+    expect(await revertOf(as(buyer).redeem.staticCall(...args))).toBe('NotFacilitator');
+  });
+
+  it('rejects redeemUpTo() from the seller, so it cannot take the signed maximum', async () => {
+    const { authorization, args } = await signAuthorization();
+
+    expect(await revertOf(as(seller).redeemUpTo.staticCall(...args, authorization.amount))).toBe('NotFacilitator');
+  });
+
+  it('rejects redeemWithFee() from anyone but the facilitator', async () => {
+    const { authorization, args } = await signAuthorization();
+
+    expect(await revertOf(as(seller).redeemWithFee.staticCall(...args, authorization.amount, seller.address, 0)))
+      .toBe('NotFacilitator');
+  });
+});
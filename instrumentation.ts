@@ -0,0 +1,22 @@
+/**
+ * Next.js instrumentation - registers OpenTelemetry for the spans in lib/tracing.ts
+ *
+ * Traces are exported over OTLP to OTEL_EXPORTER_OTLP_ENDPOINT (with the standard
+ * OTEL_EXPORTER_OTLP_* settings), printed with OTEL_TRACES_EXPORTER=console, or not
+ * recorded at all with OTEL_TRACES_EXPORTER=none.
+ */
+
+import { registerOTel } from '@vercel/otel';
+import { ConsoleSpanExporter } from '@opentelemetry/sdk-trace-base';
+import { env } from './lib/env';
+
+export function register() {
+  if (env.OTEL_TRACES_EXPORTER === 'none') {
+    return;
+  }
+
+  registerOTel({
+    serviceName: process.env.OTEL_SERVICE_NAME || 'polkadot-x402',
+    traceExporter: env.OTEL_TRACES_EXPORTER === 'console' ? new ConsoleSpanExporter() : 'auto',
+  });
+}
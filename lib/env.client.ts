@@ -7,7 +7,7 @@ export const clientEnv = {
   // Facilitator URL (for client-side API calls if needed)
   FACILITATOR_URL: process.env.NEXT_PUBLIC_FACILITATOR_URL || '',
   
-  // Network is hardcoded
-  NETWORK: 'polkadot-hub-testnet' as const,
+  // Default network id from config/networks.json
+  NETWORK: process.env.NEXT_PUBLIC_NETWORK || 'polkadot-hub-testnet',
 };
 
@@ -2,10 +2,11 @@
  * Environment variable validation and configuration
  * Required keys: FACILITATOR_PRIVATE_KEY, BUYER_PRIVATE_KEY, SELLER_ADDRESS
  * SELLER_PRIVATE_KEY is optional - only needed if you need to sign with seller wallet
- * All other values are hardcoded for Polkadot Hub TestNet
+ * NETWORK selects the default network from config/networks.json (Polkadot Hub TestNet if unset)
  */
 
 import { ethers } from 'ethers';
+import { getNetworkConfig } from '@/lib/evm/networks';
 
 function requireEnv(key: string, allowNextPublic: boolean = false): string {
   // First try the regular key (server-side)
@@ -76,15 +77,130 @@ export const env = {
   // Can be accessed from client-side if NEXT_PUBLIC_FACILITATOR_URL is set
   // Server-side falls back to FACILITATOR_URL if NEXT_PUBLIC_ version not available
   FACILITATOR_URL: requireEnv('FACILITATOR_URL', true),
-  
-  // Hardcoded for Polkadot Hub TestNet
-  NETWORK: 'polkadot-hub-testnet' as const,
+
+  // Optional - Nonce registry backend ('memory' or 'file') used for replay protection
+  NONCE_STORE: getEnv('NONCE_STORE', false, 'memory') as 'memory' | 'file',
+
+  // Optional - Path of the nonce registry file when NONCE_STORE=file
+  NONCE_STORE_PATH: getEnv('NONCE_STORE_PATH', false, '.data/nonces.json') as string,
+
+  // Optional - Settlement record backend ('memory' or 'file') used for idempotent settlement
+  SETTLEMENT_STORE: getEnv('SETTLEMENT_STORE', false, 'memory') as 'memory' | 'file',
+
+  // Optional - Path of the settlement record file when SETTLEMENT_STORE=file
+  SETTLEMENT_STORE_PATH: getEnv('SETTLEMENT_STORE_PATH', false, '.data/settlements.json') as string,
+
+  // Optional - Access pass usage backend ('memory' or 'file') counting request-limited passes
+  ACCESS_PASS_STORE: getEnv('ACCESS_PASS_STORE', false, 'memory') as 'memory' | 'file',
+
+  // Optional - Path of the access pass usage file when ACCESS_PASS_STORE=file
+  ACCESS_PASS_STORE_PATH: getEnv('ACCESS_PASS_STORE_PATH', false, '.data/access-passes.json') as string,
+
+  // Optional - Rate limit bucket backend ('memory' or 'redis'); use 'redis' to share limits between instances
+  RATE_LIMIT_STORE: getEnv('RATE_LIMIT_STORE', false, 'memory') as 'memory' | 'redis',
+
+  // Optional - Redis REST endpoint (e.g. Upstash) when RATE_LIMIT_STORE=redis
+  RATE_LIMIT_REDIS_URL: getEnv('RATE_LIMIT_REDIS_URL'),
+
+  // Optional - Bearer token for RATE_LIMIT_REDIS_URL
+  // SERVER-ONLY: Never use NEXT_PUBLIC_ prefix for secrets
+  RATE_LIMIT_REDIS_TOKEN: getEnv('RATE_LIMIT_REDIS_TOKEN'),
+
+  // Optional - Proxies in front of the app that append to X-Forwarded-For (default 0, trusting no proxy header)
+  // The client IP is the entry the outermost of them appended; set it when behind a proxy or load balancer
+  TRUSTED_PROXY_COUNT: Number(getEnv('TRUSTED_PROXY_COUNT', false, '0')),
+
+  // Optional - X402Escrow contract address for non-custodial native settlement
+  // When unset, native payments are settled from the server-held buyer wallet
+  ESCROW_CONTRACT_ADDRESS: getEnv('ESCROW_CONTRACT_ADDRESS', true),
+
+  // Optional - Clock-skew tolerance (seconds) when checking authorization validAfter/validBefore
+  CLOCK_SKEW_SECONDS: Number(getEnv('CLOCK_SKEW_SECONDS', false, '30')),
+
+  // Optional - How requests use a network's RPC URLs: 'fallback' (default) or 'quorum'
+  RPC_STRATEGY: getEnv('RPC_STRATEGY', false, 'fallback') as 'fallback' | 'quorum',
+
+  // Optional - Matching RPC answers required for reads when RPC_STRATEGY=quorum
+  RPC_QUORUM: Number(getEnv('RPC_QUORUM', false, '2')),
+
+  // Optional - API key of the default seller (used when config/sellers.json lists no sellers)
+  // Signs requests to /verify, /settle and /refund (derived from FACILITATOR_PRIVATE_KEY if unset)
+  // SERVER-ONLY: Never use NEXT_PUBLIC_ prefix for secrets
+  SELLER_API_KEY: getEnv('SELLER_API_KEY'),
+
+  // Optional - HMAC secret for price quotes and access passes (derived from FACILITATOR_PRIVATE_KEY if unset)
+  // SERVER-ONLY: Never use NEXT_PUBLIC_ prefix for secrets
+  QUOTE_SECRET: getEnv('QUOTE_SECRET'),
+
+  // Optional - Bearer token required to scrape GET /api/metrics (open if unset)
+  // SERVER-ONLY: Never use NEXT_PUBLIC_ prefix for secrets
+  METRICS_TOKEN: getEnv('METRICS_TOKEN'),
+
+  // Optional - Least severe log level written: 'debug', 'info' (default), 'warn' or 'error'
+  LOG_LEVEL: getEnv('LOG_LEVEL', false, 'info') as 'debug' | 'info' | 'warn' | 'error',
+
+  // Optional - Trace exporter: 'otlp' (default, to OTEL_EXPORTER_OTLP_ENDPOINT), 'console' or 'none'
+  OTEL_TRACES_EXPORTER: getEnv('OTEL_TRACES_EXPORTER', false, 'otlp') as 'otlp' | 'console' | 'none',
+
+  // Optional - Default network id from config/networks.json
+  NETWORK: getEnv('NETWORK', true, 'polkadot-hub-testnet') as string,
 };
 
 // Validate required private keys
 validatePrivateKey(env.FACILITATOR_PRIVATE_KEY, 'FACILITATOR_PRIVATE_KEY');
 validatePrivateKey(env.BUYER_PRIVATE_KEY, 'BUYER_PRIVATE_KEY');
 
+// Validate the default network is configured (throws for unknown networks)
+getNetworkConfig(env.NETWORK);
+
+// Validate clock-skew tolerance
+if (!Number.isInteger(env.CLOCK_SKEW_SECONDS) || env.CLOCK_SKEW_SECONDS < 0) {
+  throw new Error('CLOCK_SKEW_SECONDS must be a non-negative integer');
+}
+
+// Validate trusted proxies
+if (!Number.isInteger(env.TRUSTED_PROXY_COUNT) || env.TRUSTED_PROXY_COUNT < 0) {
+  throw new Error('TRUSTED_PROXY_COUNT must be a non-negative integer');
+}
+
+// Validate RPC routing
+if (env.RPC_STRATEGY !== 'fallback' && env.RPC_STRATEGY !== 'quorum') {
+  throw new Error("RPC_STRATEGY must be 'fallback' or 'quorum'");
+}
+if (!Number.isInteger(env.RPC_QUORUM) || env.RPC_QUORUM < 1) {
+  throw new Error('RPC_QUORUM must be a positive integer');
+}
+
+// Validate log level
+if (!['debug', 'info', 'warn', 'error'].includes(env.LOG_LEVEL)) {
+  throw new Error("LOG_LEVEL must be 'debug', 'info', 'warn' or 'error'");
+}
+
+// Validate trace exporter
+if (!['otlp', 'console', 'none'].includes(env.OTEL_TRACES_EXPORTER)) {
+  throw new Error("OTEL_TRACES_EXPORTER must be 'otlp', 'console' or 'none'");
+}
+
+// Validate store backends (a typo must not silently fall back to memory and lose records on restart)
+for (const name of ['NONCE_STORE', 'SETTLEMENT_STORE', 'ACCESS_PASS_STORE'] as const) {
+  if (env[name] !== 'memory' && env[name] !== 'file') {
+    throw new Error(`${name} must be 'memory' or 'file'`);
+  }
+}
+
+// Validate rate limit backend
+if (env.RATE_LIMIT_STORE !== 'memory' && env.RATE_LIMIT_STORE !== 'redis') {
+  throw new Error("RATE_LIMIT_STORE must be 'memory' or 'redis'");
+}
+if (env.RATE_LIMIT_STORE === 'redis' && !env.RATE_LIMIT_REDIS_URL) {
+  throw new Error('RATE_LIMIT_REDIS_URL is required when RATE_LIMIT_STORE=redis');
+}
+
+// Validate escrow contract address if provided
+if (env.ESCROW_CONTRACT_ADDRESS && !ethers.isAddress(env.ESCROW_CONTRACT_ADDRESS)) {
+  throw new Error('ESCROW_CONTRACT_ADDRESS must be a valid address');
+}
+
 // Validate seller private key if provided
 if (env.SELLER_PRIVATE_KEY) {
   validatePrivateKey(env.SELLER_PRIVATE_KEY, 'SELLER_PRIVATE_KEY');
@@ -0,0 +1,85 @@
+/**
+ * EIP-3009 (Transfer With Authorization) helpers
+ * Used to settle ERC-20 payments where the buyer signs and the facilitator submits
+ */
+
+import { ethers } from 'ethers';
+import { getProvider } from './wallet';
+import { getNetworkConfig } from './networks';
+import type { PaymentRequirements } from '@/types/x402';
+
+/**
+ * Minimal ABI for EIP-3009 compatible tokens
+ */
+export const EIP3009_ABI = [
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+  'function transferWithAuthorization(address from, address to, uint256 value, uint256 validAfter, uint256 validBefore, bytes32 nonce, uint8 v, bytes32 r, bytes32 s)',
+];
+
+/**
+ * EIP-712 types for TransferWithAuthorization
+ */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+  ],
+};
+
+/**
+ * EIP-712 domain of an EIP-3009 token
+ */
+export interface TokenDomain {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+}
+
+/**
+ * Resolve the EIP-712 domain for a token
+ * Uses `extra.name` / `extra.version` from the payment requirements when provided,
+ * otherwise reads them from the token contract
+ */
+export async function getTokenDomain(
+  asset: string,
+  network: string,
+  extra?: PaymentRequirements['extra']
+): Promise<TokenDomain> {
+  const networkConfig = getNetworkConfig(network);
+  let name: string | undefined = extra?.name;
+  let version: string | undefined = extra?.version;
+
+  if (!name || !version) {
+    const token = new ethers.Contract(asset, EIP3009_ABI, getProvider(network));
+    name = name || await token.name();
+    version = version || await token.version().catch(() => '1');
+  }
+
+  return {
+    name: name as string,
+    version: version as string,
+    chainId: networkConfig.chainId,
+    verifyingContract: ethers.getAddress(asset),
+  };
+}
+
+/**
+ * Check whether an EIP-3009 authorization nonce has already been used on-chain
+ */
+export async function isAuthorizationUsed(
+  asset: string,
+  from: string,
+  nonce: string,
+  network: string
+): Promise<boolean> {
+  const token = new ethers.Contract(asset, EIP3009_ABI, getProvider(network));
+  return await token.authorizationState(from, nonce);
+}
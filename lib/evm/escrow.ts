@@ -0,0 +1,140 @@
+/**
+ * X402Escrow contract bindings
+ * Buyers deposit native PAS into the escrow (contracts/X402Escrow.sol) and the
+ * facilitator redeems their signed PaymentAuthorization to pay the seller
+ */
+
+import { ethers } from 'ethers';
+import { env } from '@/lib/env';
+import { getProvider, getWallet } from './wallet';
+import { getTransactionManager, type ManagedTransaction } from './tx-manager';
+
+/**
+ * Human-readable ABI of contracts/X402Escrow.sol
+ */
+export const ESCROW_ABI = [
+  'function deposit() payable',
+  'function requestWithdrawal()',
+  'function withdraw(uint256 amount)',
+  'function redeem(address from, address to, uint256 amount, bytes32 nonce, uint256 validAfter, uint256 validBefore, string resource, string network, bytes signature)',
+  'function redeemUpTo(address from, address to, uint256 maxAmount, bytes32 nonce, uint256 validAfter, uint256 validBefore, string resource, string network, bytes signature, uint256 amount)',
+  'function redeemWithFee(address from, address to, uint256 maxAmount, bytes32 nonce, uint256 validAfter, uint256 validBefore, string resource, string network, bytes signature, uint256 amount, address feeRecipient, uint256 fee)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function nonceUsed(address account, bytes32 nonce) view returns (bool)',
+  'function withdrawalUnlockAt(address account) view returns (uint256)',
+  'function withdrawalPending(address account) view returns (bool)',
+  'function withdrawalDelay() view returns (uint256)',
+  'function withdrawalWindow() view returns (uint256)',
+  'function facilitator() view returns (address)',
+  'function domainSeparator() view returns (bytes32)',
+  'event Deposited(address indexed account, uint256 amount)',
+  'event WithdrawalRequested(address indexed account, uint256 unlockAt)',
+  'event Withdrawn(address indexed account, uint256 amount)',
+  'event PaymentRedeemed(address indexed from, address indexed to, uint256 amount, bytes32 indexed nonce)',
+  'event FeeCollected(address indexed from, address indexed recipient, uint256 fee, bytes32 indexed nonce)',
+];
+
+/**
+ * Signed native payment authorization as carried in the x402 payload
+ */
+export interface EscrowAuthorization {
+  from: string;
+  to: string;
+  amount: string;
+  nonce: string;
+  validAfter: number;
+  validBefore: number;
+  resource: string;
+  network: string;
+}
+
+/**
+ * Get the escrow contract address for a network, or null if escrow settlement is not configured
+ */
+export function getEscrowAddress(network?: string): string | null {
+  const networkId = network || env.NETWORK;
+  if (networkId !== env.NETWORK || !env.ESCROW_CONTRACT_ADDRESS) {
+    return null;
+  }
+  return ethers.getAddress(env.ESCROW_CONTRACT_ADDRESS);
+}
+
+/**
+ * Get an escrow contract instance
+ * Read-only unless a signer is passed; use getEscrowWithFacilitator() to redeem
+ */
+export function getEscrowContract(
+  network?: string,
+  runner?: ethers.ContractRunner
+): ethers.Contract {
+  const address = getEscrowAddress(network);
+  if (!address) {
+    throw new Error(`Escrow contract is not configured for network "${network || env.NETWORK}"`);
+  }
+  return new ethers.Contract(address, ESCROW_ABI, runner || getProvider(network));
+}
+
+/**
+ * Get an escrow contract instance connected to the facilitator wallet
+ */
+export function getEscrowWithFacilitator(network?: string): ethers.Contract {
+  return getEscrowContract(network, getWallet(network));
+}
+
+/**
+ * Get the escrowed balance of a buyer
+ */
+export async function getEscrowBalance(address: string, network?: string): Promise<bigint> {
+  return await getEscrowContract(network).balanceOf(address);
+}
+
+/**
+ * Check whether a buyer has requested a withdrawal that could still be executed
+ * Such a deposit can be pulled before settlement, so payments from it are not accepted
+ */
+export async function isEscrowWithdrawalPending(address: string, network?: string): Promise<boolean> {
+  return await getEscrowContract(network).withdrawalPending(address);
+}
+
+/**
+ * Check whether a buyer's authorization nonce has been redeemed on-chain
+ */
+export async function isEscrowNonceUsed(address: string, nonce: string, network?: string): Promise<boolean> {
+  return await getEscrowContract(network).nonceUsed(address, nonce);
+}
+
+/**
+ * Redeem a buyer's signed authorization, moving funds from the escrow to the seller
+ * Pass `amount` to settle less than the signed maximum ("upto" scheme) and `fee`
+ * to pay part of it to a fee recipient (only the escrow's facilitator may redeem)
+ * Sent through the facilitator's transaction manager
+ */
+export async function redeemAuthorization(
+  authorization: EscrowAuthorization,
+  signature: string,
+  network?: string,
+  amount?: string,
+  fee?: { recipient: string; amount: string }
+): Promise<ManagedTransaction> {
+  const networkId = network || env.NETWORK;
+  const facilitatorWallet = getWallet(networkId);
+  const escrow = getEscrowContract(networkId, facilitatorWallet);
+  const args = [
+    authorization.from,
+    authorization.to,
+    BigInt(authorization.amount),
+    authorization.nonce,
+    BigInt(authorization.validAfter),
+    BigInt(authorization.validBefore),
+    authorization.resource,
+    authorization.network,
+    signature,
+  ] as const;
+  const settled = BigInt(amount ?? authorization.amount);
+  const request = fee
+    ? await escrow.redeemWithFee.populateTransaction(...args, settled, fee.recipient, BigInt(fee.amount))
+    : amount === undefined
+      ? await escrow.redeem.populateTransaction(...args)
+      : await escrow.redeemUpTo.populateTransaction(...args, settled);
+  return await getTransactionManager(facilitatorWallet, networkId).send(request);
+}
@@ -1,51 +1,115 @@
 /**
  * EVM Network configurations
- * Polkadot Hub TestNet facilitator only
+ * Networks are loaded from config/networks.json; unknown networks are rejected
  */
 
+import networksConfig from '@/config/networks.json';
+
+/**
+ * A payment asset accepted on a network
+ * `address` is 'native' for the native currency, otherwise an EIP-3009 token
+ */
+export interface NetworkAsset {
+  address: string;
+  symbol: string;
+  decimals: number;
+  name?: string; // EIP-712 domain name of the token
+  version?: string; // EIP-712 domain version of the token
+}
+
 export interface NetworkConfig {
   name: string;
   chainId: number;
-  rpcUrl: string;
+  rpcUrl: string; // Primary RPC URL (first of rpcUrls)
+  rpcUrls: string[];
+  explorer?: {
+    name: string;
+    url: string;
+  };
   nativeCurrency: {
     name: string;
     symbol: string;
     decimals: number;
   };
+  assets: NetworkAsset[];
+  testnet?: boolean;
 }
 
+type NetworkEntry = Omit<NetworkConfig, 'rpcUrl'>;
+
 /**
- * Polkadot Hub TestNet configuration
+ * Validate a network entry from config and fill in derived fields
  */
-export const STANDARD_NETWORKS: Record<string, NetworkConfig> = {
-  'polkadot-hub-testnet': {
-    name: 'Polkadot Hub TestNet',
-    chainId: 420420422,
-    rpcUrl: 'https://testnet-passet-hub-eth-rpc.polkadot.io',
-    nativeCurrency: {
-      name: 'PAS',
-      symbol: 'PAS',
-      decimals: 18,
-    },
-  },
-};
+function loadNetwork(id: string, entry: NetworkEntry): NetworkConfig {
+  if (!entry.name) {
+    throw new Error(`Network "${id}" is missing a name`);
+  }
+  if (!Number.isInteger(entry.chainId) || entry.chainId <= 0) {
+    throw new Error(`Network "${id}" has an invalid chainId`);
+  }
+  if (!Array.isArray(entry.rpcUrls) || entry.rpcUrls.length === 0) {
+    throw new Error(`Network "${id}" must have at least one RPC URL`);
+  }
+  if (!entry.nativeCurrency?.symbol || !Number.isInteger(entry.nativeCurrency.decimals)) {
+    throw new Error(`Network "${id}" has an invalid native currency`);
+  }
+  for (const asset of entry.assets || []) {
+    if (!asset.address || !asset.symbol || !Number.isInteger(asset.decimals)) {
+      throw new Error(`Network "${id}" has an invalid asset: ${JSON.stringify(asset)}`);
+    }
+  }
+
+  return {
+    ...entry,
+    rpcUrl: entry.rpcUrls[0],
+    assets: entry.assets || [],
+  };
+}
 
 /**
- * Get network configuration for Polkadot Hub TestNet
+ * Configured networks, keyed by network id
+ */
+export const STANDARD_NETWORKS: Record<string, NetworkConfig> = Object.fromEntries(
+  Object.entries(networksConfig as Record<string, NetworkEntry>).map(([id, entry]) => [id, loadNetwork(id, entry)])
+);
+
+/**
+ * Check if a network is configured
+ */
+export function isNetworkSupported(network: string): boolean {
+  return Object.prototype.hasOwnProperty.call(STANDARD_NETWORKS, network);
+}
+
+/**
+ * Get network configuration
+ * Throws if the network is not configured
  */
 export function getNetworkConfig(network: string): NetworkConfig {
-  // Only support Polkadot Hub TestNet
-  if (network === 'polkadot-hub-testnet' && STANDARD_NETWORKS[network]) {
+  if (isNetworkSupported(network)) {
     return STANDARD_NETWORKS[network];
   }
 
-  // Default fallback to Polkadot Hub TestNet
-  if (STANDARD_NETWORKS['polkadot-hub-testnet']) {
-    return STANDARD_NETWORKS['polkadot-hub-testnet'];
-  }
-
   throw new Error(
-    `Network "${network}" is not supported. Only Polkadot Hub TestNet is supported.`
+    `Network "${network}" is not supported. Supported networks: ${getSupportedNetworks().join(', ')}`
+  );
+}
+
+/**
+ * Get the id of the network with the given chain id, if configured
+ */
+export function getNetworkByChainId(chainId: number): string | undefined {
+  const match = Object.entries(STANDARD_NETWORKS).find(([, config]) => config.chainId === chainId);
+  return match ? match[0] : undefined;
+}
+
+/**
+ * Get a supported asset of a network by address ('native' for the native currency)
+ * Returns undefined if the asset is not accepted on that network
+ */
+export function getNetworkAsset(network: string, asset: string): NetworkAsset | undefined {
+  const isNative = asset === 'native' || asset === '0x0000000000000000000000000000000000000000';
+  return getNetworkConfig(network).assets.find((entry) =>
+    isNative ? entry.address === 'native' : entry.address.toLowerCase() === asset.toLowerCase()
   );
 }
 
@@ -55,4 +119,3 @@ export function getNetworkConfig(network: string): NetworkConfig {
 export function getSupportedNetworks(): string[] {
   return Object.keys(STANDARD_NETWORKS);
 }
-
@@ -0,0 +1,391 @@
+/**
+ * EVM RPC Provider Pool
+ * Spreads requests over a network's RPC URLs with failover or quorum reads,
+ * and ejects endpoints that fail health probes (wrong chain id, lagging blocks, errors)
+ */
+
+import { ethers } from 'ethers';
+import { getNetworkConfig } from './networks';
+import { logger } from '@/lib/logger';
+import { rpcDuration } from '@/lib/metrics';
+import { endSpan, failSpan, SpanKind, startSpan } from '@/lib/tracing';
+
+/**
+ * How requests are routed across a network's endpoints
+ * - fallback: first healthy endpoint, moving on to the next one when it fails
+ * - quorum: deterministic reads must get the same answer from `quorum` endpoints
+ */
+export type ProviderPoolStrategy = 'fallback' | 'quorum';
+
+/**
+ * Provider pool tuning
+ */
+export interface ProviderPoolOptions {
+  strategy: ProviderPoolStrategy;
+  quorum: number; // Matching answers required for quorum reads (capped at the number of endpoints)
+  requestTimeoutMs: number; // Time before a request to one endpoint counts as failed
+  healthCheckIntervalMs: number; // How often every endpoint is probed
+  maxBlockLag: number; // Blocks an endpoint may trail the best endpoint before it is ejected
+  maxFailures: number; // Consecutive failures before an endpoint is ejected
+}
+
+const DEFAULT_OPTIONS: ProviderPoolOptions = {
+  strategy: 'fallback',
+  quorum: 2,
+  requestTimeoutMs: 10_000,
+  healthCheckIntervalMs: 30_000,
+  maxBlockLag: 5,
+  maxFailures: 3,
+};
+
+/**
+ * Reads whose answer is the same on every in-sync node, so quorum can compare them
+ * Everything else (block numbers, fee data, gas estimates, sends) uses fallback
+ */
+const QUORUM_METHODS = new Set([
+  'eth_chainId',
+  'eth_call',
+  'eth_getBalance',
+  'eth_getCode',
+  'eth_getStorageAt',
+  'eth_getTransactionCount',
+  'eth_getTransactionByHash',
+  'eth_getTransactionReceipt',
+]);
+
+/**
+ * Health of one RPC endpoint, for debugging
+ */
+export interface ProviderEndpointState {
+  url: string;
+  healthy: boolean;
+  failures: number;
+  blockNumber: number | null;
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastError?: string;
+}
+
+/**
+ * Snapshot of a network's pool for debugging
+ */
+export interface ProviderPoolState {
+  network: string;
+  chainId: number;
+  strategy: ProviderPoolStrategy;
+  endpoints: ProviderEndpointState[];
+}
+
+interface PoolEndpoint extends ProviderEndpointState {
+  provider: ethers.JsonRpcProvider;
+}
+
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, url: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`RPC request to ${url} timed out after ${ms}ms`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function isAlreadyKnown(response: ethers.JsonRpcResult | ethers.JsonRpcError): boolean {
+  return 'error' in response && /already known|known transaction|already imported/i.test(response.error.message || '');
+}
+
+/**
+ * Provider that sends every request through a pool
+ */
+class PooledProvider extends ethers.JsonRpcApiProvider {
+  private readonly pool: ProviderPool;
+
+  constructor(pool: ProviderPool, network: ethers.Network) {
+    // One request per call, so each can be routed and retried on its own
+    super(network, { staticNetwork: network, batchMaxCount: 1 });
+    this.pool = pool;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(payloads.map((entry) => this.pool.send(entry)));
+  }
+}
+
+/**
+ * Per-network pool of RPC endpoints
+ */
+export class ProviderPool {
+  readonly network: string;
+  readonly provider: ethers.JsonRpcApiProvider;
+  private readonly chainId: number;
+  private readonly options: ProviderPoolOptions;
+  private readonly endpoints: PoolEndpoint[];
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(network: string, options: Partial<ProviderPoolOptions> = {}) {
+    const networkConfig = getNetworkConfig(network);
+    const ethersNetwork = ethers.Network.from({ name: networkConfig.name, chainId: networkConfig.chainId });
+
+    this.network = network;
+    this.chainId = networkConfig.chainId;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = networkConfig.rpcUrls.map((url) => ({
+      url,
+      provider: new ethers.JsonRpcProvider(url, ethersNetwork, { staticNetwork: ethersNetwork, batchMaxCount: 1 }),
+      healthy: true,
+      failures: 0,
+      blockNumber: null,
+      latencyMs: null,
+      lastCheckedAt: null,
+    }));
+    this.provider = new PooledProvider(this, ethersNetwork);
+  }
+
+  /**
+   * Start periodic health probes (does not keep the process alive)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    void this.checkHealth();
+    this.timer = setInterval(() => void this.checkHealth(), this.options.healthCheckIntervalMs);
+    if (typeof this.timer === 'object' && 'unref' in this.timer) {
+      this.timer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Send one JSON-RPC request according to the pool's strategy
+   */
+  async send(payload: ethers.JsonRpcPayload): Promise<ethers.JsonRpcResult | ethers.JsonRpcError> {
+    if (this.options.strategy === 'quorum' && QUORUM_METHODS.has(payload.method) && this.endpoints.length > 1) {
+      return this.sendQuorum(payload);
+    }
+    return this.sendFallback(payload);
+  }
+
+  /**
+   * Probe every endpoint's chain id and block height, ejecting unhealthy ones
+   * and readmitting ejected endpoints that pass again
+   */
+  async checkHealth(): Promise<void> {
+    const probes = await Promise.all(this.endpoints.map(async (endpoint) => {
+      const startedAt = Date.now();
+      try {
+        const [chainId, blockNumber] = await withTimeout(
+          Promise.all([
+            endpoint.provider.send('eth_chainId', []),
+            endpoint.provider.send('eth_blockNumber', []),
+          ]),
+          this.options.requestTimeoutMs,
+          endpoint.url
+        );
+        endpoint.latencyMs = Date.now() - startedAt;
+        if (Number(chainId) !== this.chainId) {
+          // An endpoint on the wrong chain is never usable, so eject it right away
+          this.recordFailure(endpoint, new Error(`Wrong chain id ${Number(chainId)}, expected ${this.chainId}`), this.options.maxFailures);
+          return { endpoint, blockNumber: null };
+        }
+        return { endpoint, blockNumber: Number(blockNumber) };
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        return { endpoint, blockNumber: null };
+      } finally {
+        endpoint.lastCheckedAt = Date.now();
+      }
+    }));
+
+    const bestBlock = Math.max(...probes.map((probe) => probe.blockNumber ?? -1));
+    for (const { endpoint, blockNumber } of probes) {
+      if (blockNumber === null) {
+        continue;
+      }
+      endpoint.blockNumber = blockNumber;
+      if (bestBlock - blockNumber > this.options.maxBlockLag) {
+        endpoint.healthy = false;
+        endpoint.lastError = `Block ${blockNumber} is ${bestBlock - blockNumber} blocks behind ${bestBlock}`;
+      } else {
+        endpoint.healthy = true;
+        endpoint.failures = 0;
+        endpoint.lastError = undefined;
+      }
+    }
+
+    const ejected = this.endpoints.filter((endpoint) => !endpoint.healthy);
+    if (ejected.length > 0) {
+      logger.warn('ProviderPool: Unhealthy RPC endpoints', {
+        network: this.network,
+        endpoints: ejected.map((endpoint) => ({ url: endpoint.url, error: endpoint.lastError })),
+      });
+    }
+  }
+
+  getState(): ProviderPoolState {
+    return {
+      network: this.network,
+      chainId: this.chainId,
+      strategy: this.options.strategy,
+      endpoints: this.endpoints.map((endpoint) => ({
+        url: endpoint.url,
+        healthy: endpoint.healthy,
+        failures: endpoint.failures,
+        blockNumber: endpoint.blockNumber,
+        latencyMs: endpoint.latencyMs,
+        lastCheckedAt: endpoint.lastCheckedAt,
+        lastError: endpoint.lastError,
+      })),
+    };
+  }
+
+  /**
+   * Healthy endpoints in configured order; every endpoint if none is healthy
+   */
+  private candidates(): PoolEndpoint[] {
+    const healthy = this.endpoints.filter((endpoint) => endpoint.healthy);
+    return healthy.length > 0 ? healthy : this.endpoints;
+  }
+
+  private async sendTo(endpoint: PoolEndpoint, payload: ethers.JsonRpcPayload): Promise<ethers.JsonRpcResult | ethers.JsonRpcError> {
+    // Providers are labelled by host: RPC URL paths often carry API keys
+    const labels = { network: this.network, provider: getHost(endpoint.url), method: payload.method };
+    const startedAt = Date.now();
+    const span = startSpan(`x402.rpc ${payload.method}`, {
+      'rpc.system': 'jsonrpc',
+      'rpc.method': payload.method,
+      'server.address': labels.provider,
+      'x402.network': this.network,
+    }, SpanKind.CLIENT);
+    try {
+      const [response] = await withTimeout(endpoint.provider._send(payload), this.options.requestTimeoutMs, endpoint.url);
+      endpoint.failures = 0;
+      rpcDuration.observeSince({ ...labels, result: 'error' in response ? 'rpc_error' : 'success' }, startedAt);
+      if ('error' in response) {
+        const { code, message } = (response as ethers.JsonRpcError).error;
+        span.setAttribute('rpc.jsonrpc.error_code', code);
+        failSpan(span, message || `JSON-RPC error ${code}`);
+      }
+      endSpan(span);
+      return response as ethers.JsonRpcResult | ethers.JsonRpcError;
+    } catch (error) {
+      rpcDuration.observeSince({ ...labels, result: 'failure' }, startedAt);
+      endSpan(span, error);
+      throw error;
+    }
+  }
+
+  private async sendFallback(payload: ethers.JsonRpcPayload): Promise<ethers.JsonRpcResult | ethers.JsonRpcError> {
+    let lastError: unknown;
+    let attempts = 0;
+
+    for (const endpoint of this.candidates()) {
+      try {
+        const response = await this.sendTo(endpoint, payload);
+        // A send that timed out on an earlier endpoint may still have reached the network
+        if (payload.method === 'eth_sendRawTransaction' && attempts > 0 && isAlreadyKnown(response)) {
+          return { id: payload.id, result: ethers.keccak256((payload.params as string[])[0]) };
+        }
+        return response;
+      } catch (error) {
+        lastError = error;
+        attempts++;
+        this.recordFailure(endpoint, error);
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error(`All RPC endpoints failed for ${this.network}`);
+  }
+
+  private async sendQuorum(payload: ethers.JsonRpcPayload): Promise<ethers.JsonRpcResult | ethers.JsonRpcError> {
+    const endpoints = this.candidates().length >= this.requiredQuorum() ? this.candidates() : this.endpoints;
+    const required = Math.min(this.requiredQuorum(), endpoints.length);
+
+    const responses = await Promise.all(endpoints.map((endpoint) =>
+      this.sendTo(endpoint, payload).catch((error) => {
+        this.recordFailure(endpoint, error);
+        return null;
+      })
+    ));
+
+    // Group identical answers (results or JSON-RPC errors) and take one that reaches quorum
+    const votes = new Map<string, { response: ethers.JsonRpcResult | ethers.JsonRpcError; count: number }>();
+    for (const response of responses) {
+      if (!response) {
+        continue;
+      }
+      const key = JSON.stringify('error' in response ? { error: response.error } : { result: response.result });
+      const vote = votes.get(key) || { response, count: 0 };
+      vote.count++;
+      votes.set(key, vote);
+    }
+
+    const winner = Array.from(votes.values()).find((vote) => vote.count >= required);
+    if (!winner) {
+      throw new Error(`RPC endpoints for ${this.network} did not reach quorum (${required}) for ${payload.method}`);
+    }
+    return { ...winner.response, id: payload.id };
+  }
+
+  private requiredQuorum(): number {
+    return Math.max(1, Math.min(this.options.quorum, this.endpoints.length));
+  }
+
+  private recordFailure(endpoint: PoolEndpoint, error: unknown, failures: number = endpoint.failures + 1): void {
+    endpoint.failures = failures;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    if (endpoint.healthy && endpoint.failures >= this.options.maxFailures) {
+      endpoint.healthy = false;
+      logger.warn('ProviderPool: Ejecting RPC endpoint', {
+        network: this.network,
+        url: endpoint.url,
+        error: endpoint.lastError,
+      });
+    }
+  }
+}
+
+const pools = new Map<string, ProviderPool>();
+
+/**
+ * Get the shared pool for a network, starting its health probes on first use
+ */
+export function getProviderPool(network: string, options: Partial<ProviderPoolOptions> = {}): ProviderPool {
+  let pool = pools.get(network);
+  if (!pool) {
+    pool = new ProviderPool(network, options);
+    pool.start();
+    pools.set(network, pool);
+  }
+  return pool;
+}
+
+/**
+ * Snapshot of every pool in use
+ */
+export function getProviderPoolStates(): ProviderPoolState[] {
+  return Array.from(pools.values()).map((pool) => pool.getState());
+}
+
+/**
+ * Stop and discard every pool (useful for testing or RPC changes)
+ */
+export function resetProviderPools(): void {
+  for (const pool of pools.values()) {
+    pool.stop();
+  }
+  pools.clear();
+}
@@ -0,0 +1,177 @@
+/**
+ * Transaction manager tests
+ * The signer and its provider are mocked; polling and stuck timeouts are
+ * shortened so replacements happen within a test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { getManagedTransaction, TransactionManager } from './tx-manager';
+
+const GWEI = BigInt(1_000_000_000);
+const RECIPIENT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+const SIGNER_ADDRESS = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+/**
+ * A signer on a mocked chain; each test gets its own, so the monitors of
+ * earlier tests' transactions never touch it
+ */
+function mockChain() {
+  const receipts = new Map<string, { hash: string; status: number; blockNumber: number }>();
+  const provider = {
+    getTransactionCount: vi.fn(async () => 7),
+    getFeeData: vi.fn(async () => ({
+      maxFeePerGas: BigInt(100) * GWEI,
+      maxPriorityFeePerGas: BigInt(2) * GWEI,
+      gasPrice: null,
+    })),
+    getTransactionReceipt: vi.fn(async (hash: string) => receipts.get(hash) || null),
+  };
+  const sendTransaction = vi.fn(async (request: ethers.TransactionRequest) => sentResponse(request));
+  const signer = { address: SIGNER_ADDRESS, provider, sendTransaction } as unknown as ethers.Wallet;
+  return { receipts, provider, sendTransaction, signer };
+}
+
+let receipts: ReturnType<typeof mockChain>['receipts'];
+let provider: ReturnType<typeof mockChain>['provider'];
+let sendTransaction: ReturnType<typeof mockChain>['sendTransaction'];
+let signer: ethers.Wallet;
+
+function sentResponse(request: ethers.TransactionRequest) {
+  return {
+    hash: ethers.hexlify(ethers.randomBytes(32)),
+    from: SIGNER_ADDRESS,
+    to: request.to,
+    nonce: request.nonce,
+    maxFeePerGas: request.maxFeePerGas ?? null,
+    maxPriorityFeePerGas: request.maxPriorityFeePerGas ?? null,
+    gasPrice: request.gasPrice ?? null,
+    gasLimit: BigInt(21000),
+    chainId: BigInt(420420422),
+  };
+}
+
+function createManager(): TransactionManager {
+  return new TransactionManager(signer, 'polkadot-hub-testnet', {
+    pollIntervalMs: 5,
+    stuckTimeoutMs: 30,
+    maxWaitMs: 1_000,
+  });
+}
+
+/**
+ * Nonces of every broadcast, in broadcast order
+ */
+function broadcastNonces(): ethers.TransactionRequest['nonce'][] {
+  return sendTransaction.mock.calls.map(([request]) => request.nonce);
+}
+
+beforeEach(() => {
+  ({ receipts, provider, sendTransaction, signer } = mockChain());
+});
+
+afterEach(() => {
+  // Include whatever is still pending so its monitor stops
+  for (const result of sendTransaction.mock.settledResults) {
+    if (result.type === 'fulfilled') {
+      const { hash } = result.value;
+      receipts.set(hash, receipts.get(hash) || { hash, status: 1, blockNumber: 6 });
+    }
+  }
+});
+
+describe('nonce assignment', () => {
+  it('gives concurrent sends consecutive nonces in broadcast order', async () => {
+    const manager = createManager();
+    // The first broadcast is slow; later sends must not overtake it
+    sendTransaction.mockImplementationOnce(async (request: ethers.TransactionRequest) => {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      return sentResponse(request);
+    });
+
+    const sent = await Promise.all([1, 2, 3].map(() => manager.send({ to: RECIPIENT, value: BigInt(1) })));
+
+    expect(sent.map((tx) => tx.nonce)).toEqual([7, 8, 9]);
+    expect(broadcastNonces()).toEqual([7, 8, 9]);
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands the nonce of a failed broadcast to the next send', async () => {
+    const manager = createManager();
+    sendTransaction.mockRejectedValueOnce(ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS'));
+
+    await expect(manager.send({ to: RECIPIENT, value: BigInt(1) })).rejects.toThrow('insufficient funds');
+    const next = await manager.send({ to: RECIPIENT, value: BigInt(1) });
+
+    expect(next.nonce).toBe(7);
+    expect(provider.getTransactionCount).toHaveBeenCalledTimes(1);
+  });
+
+  it('resyncs the nonce from the chain after "nonce too low"', async () => {
+    const manager = createManager();
+    sendTransaction.mockRejectedValueOnce(ethers.makeError('nonce too low', 'NONCE_EXPIRED'));
+
+    await expect(manager.send({ to: RECIPIENT, value: BigInt(1) })).rejects.toThrow('nonce too low');
+    // Another process sent from the same key in the meantime
+    provider.getTransactionCount.mockResolvedValue(12);
+    const next = await manager.send({ to: RECIPIENT, value: BigInt(1) });
+
+    expect(next.nonce).toBe(12);
+    expect(broadcastNonces()).toEqual([7, 12]);
+    expect(manager.getState().nextNonce).toBe(13);
+  });
+});
+
+describe('stuck transactions', () => {
+  it('replaces a stuck transaction with bumped fees under the same nonce', async () => {
+    const manager = createManager();
+    // Include whichever broadcast comes second
+    let broadcasts = 0;
+    sendTransaction.mockImplementation(async (request: ethers.TransactionRequest) => {
+      const response = sentResponse(request);
+      if (++broadcasts === 2) {
+        receipts.set(response.hash, { hash: response.hash, status: 1, blockNumber: 5 });
+      }
+      return response;
+    });
+
+    const tx = await manager.send({ to: RECIPIENT, value: BigInt(1) });
+    const firstHash = tx.hash;
+    const receipt = await tx.wait();
+
+    expect(sendTransaction).toHaveBeenCalledTimes(2);
+    const [replacement] = sendTransaction.mock.calls[1];
+    expect(replacement.nonce).toBe(7);
+    expect(replacement.maxFeePerGas).toBe(BigInt(120) * GWEI);
+    expect(replacement.maxPriorityFeePerGas).toBe(BigInt(24) * GWEI / BigInt(10));
+    expect(receipt.hash).toBe(tx.hash);
+    expect(tx.hashes).toEqual([firstHash, tx.hash]);
+    expect(tx.bumps).toBe(1);
+    expect(tx.status).toBe('confirmed');
+    expect(getManagedTransaction(firstHash)?.hash).toBe(tx.hash);
+  });
+});
+
+describe('wait', () => {
+  it('resolves with the receipt of an included transaction', async () => {
+    const manager = createManager();
+    const tx = await manager.send({ to: RECIPIENT, value: BigInt(1) });
+    receipts.set(tx.hash, { hash: tx.hash, status: 1, blockNumber: 5 });
+
+    const receipt = await tx.wait();
+
+    expect(receipt.blockNumber).toBe(5);
+    expect(tx.status).toBe('confirmed');
+  });
+
+  it('rejects when the transaction reverted', async () => {
+    const manager = createManager();
+    const tx = await manager.send({ to: RECIPIENT, value: BigInt(1) });
+    receipts.set(tx.hash, { hash: tx.hash, status: 0, blockNumber: 5 });
+
+    await expect(tx.wait()).rejects.toThrow(`Transaction reverted: ${tx.hash}`);
+    expect(tx.status).toBe('failed');
+    expect(manager.getState().pending).toEqual([]);
+  });
+});
@@ -0,0 +1,420 @@
+/**
+ * EVM Transaction Manager
+ * Serializes sends per signer, assigns nonces locally and replaces stuck
+ * transactions with higher EIP-1559 fees
+ */
+
+import { ethers } from 'ethers';
+import { logger } from '@/lib/logger';
+
+/**
+ * Transaction manager tuning
+ */
+export interface TransactionManagerOptions {
+  pollIntervalMs: number; // How often pending transactions are checked for receipts
+  stuckTimeoutMs: number; // Time without inclusion before a transaction is re-sent with higher fees
+  feeBumpPercent: number; // Fee increase per replacement (nodes usually require >= 10%)
+  maxFeeBumps: number; // Replacements before giving up on a transaction
+  maxWaitMs: number; // Total time to wait for inclusion after the last bump
+}
+
+const DEFAULT_OPTIONS: TransactionManagerOptions = {
+  pollIntervalMs: 2_000,
+  stuckTimeoutMs: 30_000,
+  feeBumpPercent: 20,
+  maxFeeBumps: 3,
+  maxWaitMs: 120_000,
+};
+
+export type ManagedTransactionStatus = 'broadcast' | 'confirmed' | 'failed';
+
+/**
+ * A transaction tracked by the manager across fee replacements
+ */
+export interface ManagedTransaction {
+  id: number;
+  from: string;
+  to: string | null;
+  nonce: number;
+  hash: string; // Hash of the latest broadcast (changes when fees are bumped)
+  hashes: string[]; // Every hash broadcast for this nonce
+  bumps: number;
+  status: ManagedTransactionStatus;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint;
+  firstBroadcastAt: number;
+  lastBroadcastAt: number;
+  error?: string;
+  /**
+   * Resolve with the receipt of whichever broadcast was included
+   */
+  wait(): Promise<ethers.TransactionReceipt>;
+}
+
+/**
+ * Snapshot of a signer's queue for debugging
+ */
+export interface TransactionManagerState {
+  address: string;
+  network: string;
+  nextNonce: number | null;
+  queued: number;
+  pending: Array<{
+    id: number;
+    nonce: number;
+    hash: string;
+    hashes: string[];
+    bumps: number;
+    status: ManagedTransactionStatus;
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+    gasPrice?: string;
+    ageMs: number;
+  }>;
+}
+
+interface TrackedTransaction extends ManagedTransaction {
+  request: ethers.TransactionRequest;
+  resolve: (receipt: ethers.TransactionReceipt) => void;
+  reject: (error: Error) => void;
+  promise: Promise<ethers.TransactionReceipt>;
+}
+
+/**
+ * How long finished transactions stay resolvable by hash
+ */
+const FINISHED_RETENTION_MS = 10 * 60_000;
+
+const transactionsByHash = new Map<string, TrackedTransaction>();
+let nextTransactionId = 1;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function bump(value: bigint, percent: number): bigint {
+  return value + (value * BigInt(percent) + BigInt(99)) / BigInt(100);
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+/**
+ * Per-signer transaction manager
+ */
+export class TransactionManager {
+  private readonly signer: ethers.Wallet;
+  private readonly network: string;
+  private readonly options: TransactionManagerOptions;
+  private nextNonce: number | null = null;
+  private tail: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+  private readonly pending = new Map<number, TrackedTransaction>();
+
+  constructor(signer: ethers.Wallet, network: string, options: Partial<TransactionManagerOptions> = {}) {
+    if (!signer.provider) {
+      throw new Error('Transaction manager signer must be connected to a provider');
+    }
+    this.signer = signer;
+    this.network = network;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Queue a transaction, assign it the next local nonce and broadcast it
+   * Resolves once broadcast; call wait() on the result for the receipt
+   */
+  async send(request: ethers.TransactionRequest): Promise<ManagedTransaction> {
+    return await this.enqueue(async () => {
+      const nonce = await this.reserveNonce();
+      const fees = await this.getInitialFees();
+      const populated: ethers.TransactionRequest = { ...request, ...fees, nonce };
+
+      let response: ethers.TransactionResponse;
+      try {
+        response = await this.signer.sendTransaction(populated);
+      } catch (error) {
+        this.handleSendError(nonce, error);
+        throw error;
+      }
+
+      const tracked = this.track(populated, response, nonce);
+      void this.monitor(tracked);
+      return tracked;
+    });
+  }
+
+  /**
+   * Snapshot of the queue and in-flight transactions
+   */
+  getState(): TransactionManagerState {
+    const now = Date.now();
+    return {
+      address: this.signer.address,
+      network: this.network,
+      nextNonce: this.nextNonce,
+      queued: this.queued,
+      pending: Array.from(this.pending.values()).map((tx) => ({
+        id: tx.id,
+        nonce: tx.nonce,
+        hash: tx.hash,
+        hashes: [...tx.hashes],
+        bumps: tx.bumps,
+        status: tx.status,
+        maxFeePerGas: tx.maxFeePerGas?.toString(),
+        maxPriorityFeePerGas: tx.maxPriorityFeePerGas?.toString(),
+        gasPrice: tx.gasPrice?.toString(),
+        ageMs: now - tx.firstBroadcastAt,
+      })),
+    };
+  }
+
+  /**
+   * Run sends one at a time so nonces are assigned in broadcast order
+   */
+  private enqueue<T>(job: () => Promise<T>): Promise<T> {
+    this.queued++;
+    const run = this.tail.then(job, job);
+    this.tail = run.catch(() => undefined).finally(() => {
+      this.queued--;
+    });
+    return run;
+  }
+
+  private async reserveNonce(): Promise<number> {
+    if (this.nextNonce === null) {
+      this.nextNonce = await this.signer.provider!.getTransactionCount(this.signer.address, 'pending');
+    }
+    return this.nextNonce++;
+  }
+
+  private handleSendError(nonce: number, error: unknown): void {
+    if (ethers.isError(error, 'NONCE_EXPIRED')) {
+      // Our local view is behind the chain; resync on the next send
+      this.nextNonce = null;
+    } else if (this.nextNonce === nonce + 1) {
+      // Nothing was broadcast with this nonce, so hand it to the next transaction
+      this.nextNonce = nonce;
+    } else {
+      this.nextNonce = null;
+    }
+  }
+
+  private async getInitialFees(): Promise<ethers.TransactionRequest> {
+    const feeData = await this.signer.provider!.getFeeData();
+    if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+      return {
+        maxFeePerGas: feeData.maxFeePerGas,
+        maxPriorityFeePerGas: feeData.maxPriorityFeePerGas,
+      };
+    }
+    return { gasPrice: feeData.gasPrice ?? undefined };
+  }
+
+  private track(
+    request: ethers.TransactionRequest,
+    response: ethers.TransactionResponse,
+    nonce: number
+  ): TrackedTransaction {
+    let resolve!: (receipt: ethers.TransactionReceipt) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<ethers.TransactionReceipt>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    // Async settlements may never wait; avoid unhandled rejections
+    promise.catch(() => undefined);
+
+    const now = Date.now();
+    const tracked: TrackedTransaction = {
+      id: nextTransactionId++,
+      from: response.from,
+      to: response.to,
+      nonce,
+      hash: response.hash,
+      hashes: [response.hash],
+      bumps: 0,
+      status: 'broadcast',
+      maxFeePerGas: response.maxFeePerGas ?? undefined,
+      maxPriorityFeePerGas: response.maxPriorityFeePerGas ?? undefined,
+      gasPrice: response.maxFeePerGas === null ? response.gasPrice : undefined,
+      firstBroadcastAt: now,
+      lastBroadcastAt: now,
+      // Keep gas limit and chain id so replacements only change fees
+      request: { ...request, gasLimit: response.gasLimit, chainId: response.chainId },
+      resolve,
+      reject,
+      promise,
+      wait: () => promise,
+    };
+
+    this.pending.set(tracked.id, tracked);
+    transactionsByHash.set(response.hash, tracked);
+    return tracked;
+  }
+
+  /**
+   * Poll for inclusion and replace the transaction when it is stuck
+   */
+  private async monitor(tx: TrackedTransaction): Promise<void> {
+    const provider = this.signer.provider!;
+
+    while (tx.status === 'broadcast') {
+      await sleep(this.options.pollIntervalMs);
+
+      try {
+        for (const hash of tx.hashes) {
+          const receipt = await provider.getTransactionReceipt(hash);
+          if (receipt) {
+            this.finish(tx, receipt);
+            return;
+          }
+        }
+
+        const sinceBroadcast = Date.now() - tx.lastBroadcastAt;
+        if (sinceBroadcast < this.options.stuckTimeoutMs) {
+          continue;
+        }
+
+        // A different transaction took this nonce (e.g. sent outside the manager)
+        const minedNonce = await provider.getTransactionCount(this.signer.address, 'latest');
+        if (minedNonce > tx.nonce) {
+          // Give the receipt of our replacement one more poll before failing
+          if (sinceBroadcast >= this.options.stuckTimeoutMs + this.options.pollIntervalMs * 2) {
+            this.fail(tx, new Error(`Nonce ${tx.nonce} was used by another transaction`));
+            return;
+          }
+          continue;
+        }
+
+        if (tx.bumps < this.options.maxFeeBumps) {
+          await this.enqueue(() => this.replace(tx));
+        } else if (sinceBroadcast >= this.options.maxWaitMs) {
+          this.fail(tx, new Error(`Transaction not included after ${tx.bumps} fee bumps`));
+          return;
+        }
+      } catch (error) {
+        logger.warn('TransactionManager: Monitor error', {
+          hash: tx.hash,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Re-send the same nonce with bumped fees
+   */
+  private async replace(tx: TrackedTransaction): Promise<void> {
+    if (tx.status !== 'broadcast') {
+      return;
+    }
+
+    const feeData = await this.signer.provider!.getFeeData();
+    const percent = this.options.feeBumpPercent;
+    const fees: ethers.TransactionRequest = {};
+
+    if (tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined) {
+      fees.maxPriorityFeePerGas = maxBigInt(bump(tx.maxPriorityFeePerGas, percent), feeData.maxPriorityFeePerGas ?? BigInt(0));
+      fees.maxFeePerGas = maxBigInt(bump(tx.maxFeePerGas, percent), feeData.maxFeePerGas ?? BigInt(0));
+      if (fees.maxFeePerGas < fees.maxPriorityFeePerGas) {
+        fees.maxFeePerGas = fees.maxPriorityFeePerGas;
+      }
+    } else {
+      fees.gasPrice = maxBigInt(bump(tx.gasPrice ?? BigInt(0), percent), feeData.gasPrice ?? BigInt(0));
+    }
+
+    tx.bumps++;
+    tx.lastBroadcastAt = Date.now();
+
+    try {
+      const response = await this.signer.sendTransaction({ ...tx.request, ...fees, nonce: tx.nonce });
+      tx.hash = response.hash;
+      tx.hashes.push(response.hash);
+      tx.maxFeePerGas = fees.maxFeePerGas as bigint | undefined;
+      tx.maxPriorityFeePerGas = fees.maxPriorityFeePerGas as bigint | undefined;
+      tx.gasPrice = fees.gasPrice as bigint | undefined;
+      transactionsByHash.set(response.hash, tx);
+
+      logger.info('TransactionManager: Replaced stuck transaction', {
+        nonce: tx.nonce,
+        bumps: tx.bumps,
+        hash: response.hash,
+      });
+    } catch (error) {
+      // Underpriced replacements are retried with a larger bump; a used nonce means one copy was mined
+      if (!ethers.isError(error, 'REPLACEMENT_UNDERPRICED') && !ethers.isError(error, 'NONCE_EXPIRED')) {
+        throw error;
+      }
+    }
+  }
+
+  private finish(tx: TrackedTransaction, receipt: ethers.TransactionReceipt): void {
+    tx.hash = receipt.hash;
+    this.pending.delete(tx.id);
+    this.release(tx);
+
+    if (receipt.status !== 1) {
+      tx.status = 'failed';
+      tx.error = 'Transaction reverted';
+      tx.reject(new Error(`Transaction reverted: ${receipt.hash}`));
+      return;
+    }
+
+    tx.status = 'confirmed';
+    tx.resolve(receipt);
+  }
+
+  private fail(tx: TrackedTransaction, error: Error): void {
+    tx.status = 'failed';
+    tx.error = error.message;
+    this.pending.delete(tx.id);
+    this.release(tx);
+    // The nonce may be free again (dropped transaction); resync before the next send
+    this.nextNonce = null;
+    tx.reject(error);
+  }
+
+  /**
+   * Forget a finished transaction's hashes after the retention period
+   */
+  private release(tx: TrackedTransaction): void {
+    setTimeout(() => {
+      for (const hash of tx.hashes) {
+        transactionsByHash.delete(hash);
+      }
+    }, FINISHED_RETENTION_MS).unref?.();
+  }
+}
+
+const managers = new Map<string, TransactionManager>();
+
+/**
+ * Get the transaction manager for a signer on a network
+ * Managers are shared so all sends from one key go through one queue
+ */
+export function getTransactionManager(signer: ethers.Wallet, network: string): TransactionManager {
+  const key = `${network}:${signer.address.toLowerCase()}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new TransactionManager(signer, network);
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Find a managed transaction by any of its broadcast hashes
+ */
+export function getManagedTransaction(hash: string): ManagedTransaction | null {
+  return transactionsByHash.get(hash) || null;
+}
+
+/**
+ * Queue state of every transaction manager
+ */
+export function getTransactionManagerStates(): TransactionManagerState[] {
+  return Array.from(managers.values()).map((manager) => manager.getState());
+}
@@ -5,57 +5,34 @@
 
 import { ethers } from 'ethers';
 import { env, addresses } from '@/lib/env';
-import { getNetworkConfig } from './networks';
+import { getProviderPool, resetProviderPools } from './provider-pool';
 
-let wallet: ethers.Wallet | null = null;
-let provider: ethers.JsonRpcProvider | null = null;
-let currentNetwork: string | null = null;
+// Facilitator wallets are cached per network
+const wallets = new Map<string, ethers.Wallet>();
 
 /**
- * Get or create RPC provider for a specific network
+ * Get the pooled RPC provider for a specific network
+ * Requests fail over (or are checked by quorum) across the network's RPC URLs
+ * Throws if the network is not configured
  */
-export function getProvider(network?: string): ethers.JsonRpcProvider {
+export function getProvider(network?: string): ethers.JsonRpcApiProvider {
   const networkId = network || env.NETWORK;
-  
-  // Reuse provider if same network
-  if (provider && currentNetwork === networkId) {
-    return provider;
-  }
-
-  const networkConfig = getNetworkConfig(networkId);
-  
-  // Create custom network configuration for ethers
-  const customNetwork = {
-    name: networkConfig.name,
-    chainId: networkConfig.chainId,
-  };
-
-  // Create provider with custom network
-  provider = new ethers.JsonRpcProvider(networkConfig.rpcUrl, customNetwork, {
-    staticNetwork: ethers.Network.from(customNetwork),
-  });
-  
-  currentNetwork = networkId;
-  
-  return provider;
+  return getProviderPool(networkId, {
+    strategy: env.RPC_STRATEGY,
+    quorum: env.RPC_QUORUM,
+  }).provider;
 }
 
 /**
- * Get or create facilitator wallet instance
- * Wallet is initialized with the default network but can be used with any network
+ * Get or create facilitator wallet instance for a network
  */
 export function getWallet(network?: string): ethers.Wallet {
   const networkId = network || env.NETWORK;
   
+  let wallet = wallets.get(networkId);
   if (!wallet) {
-    const provider = getProvider(networkId);
-    wallet = new ethers.Wallet(env.FACILITATOR_PRIVATE_KEY, provider);
-    currentNetwork = networkId;
-  } else if (networkId !== currentNetwork) {
-    // Update provider if network changed
-    const provider = getProvider(networkId);
-    wallet = wallet.connect(provider);
-    currentNetwork = networkId;
+    wallet = new ethers.Wallet(env.FACILITATOR_PRIVATE_KEY, getProvider(networkId));
+    wallets.set(networkId, wallet);
   }
   
   return wallet;
@@ -190,11 +167,10 @@ export async function getAllBalances(network?: string): Promise<{
 }
 
 /**
- * Reset wallet and provider (useful for testing or network switching)
+ * Reset cached wallets and providers (useful for testing or RPC changes)
  */
 export function resetWallet(): void {
-  wallet = null;
-  provider = null;
-  currentNetwork = null;
+  wallets.clear();
+  resetProviderPools();
 }
 
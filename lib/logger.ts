@@ -0,0 +1,153 @@
+/**
+ * Structured logging
+ * Every log line is one JSON object:
+ *
+ *   {"time":"...","level":"info","msg":"settleExactPayment: Transaction sent","service":"facilitator","requestId":"...","hash":"0x..."}
+ *
+ * Fields are redacted before they are written: signatures, payment payloads and
+ * headers, keys, secrets and receipts never reach the logs (see REDACTED_FIELDS).
+ * Errors are logged by name and message; stacks only at LOG_LEVEL=debug.
+ *
+ * middleware.ts assigns each request an id (X-Request-Id, kept if the client sent
+ * a well-formed one) and forwards it on its calls to the facilitator, so one
+ * payment's verify and settle lines share a requestId across services.
+ */
+
+import { env } from '@/lib/env';
+
+/**
+ * Log levels, least severe first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields of a log line
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Header carrying the request (correlation) id between services
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+/**
+ * Field names whose values are never logged (matched lowercased, without '-' and '_')
+ */
+const REDACTED_FIELDS = /signature|payload|paymentheader|xpayment|privatekey|apikey|secret|password|receipt|accesspass|quote/;
+
+/**
+ * Values redacted under any field name: 65-byte ECDSA signatures
+ */
+const SIGNATURE_VALUE = /^0x[0-9a-fA-F]{130}$/;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Deepest nesting logged; deeper values are elided
+ */
+const MAX_DEPTH = 5;
+
+/**
+ * Redact a value for logging; errors become { name, message } (and stack at debug level)
+ */
+function redact(value: unknown, depth: number = 0): unknown {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: value.message,
+      ...(env.LOG_LEVEL === 'debug' ? { stack: value.stack } : {}),
+    };
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value === 'string') {
+    return SIGNATURE_VALUE.test(value) ? REDACTED : value;
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[...]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const fields: LogFields = {};
+  for (const [key, field] of Object.entries(value)) {
+    fields[key] = REDACTED_FIELDS.test(key.toLowerCase().replace(/[-_]/g, '')) ? REDACTED : redact(field, depth + 1);
+  }
+  return fields;
+}
+
+/**
+ * JSON logger carrying context fields (service, requestId, ...) onto every line
+ */
+export class Logger {
+  constructor(private readonly context: LogFields = {}) {}
+
+  /**
+   * Logger adding fields to this one's context
+   */
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.context, ...fields });
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.write('error', msg, fields);
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (LEVELS[level] < LEVELS[env.LOG_LEVEL]) {
+      return;
+    }
+    const line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...(redact({ ...this.context, ...fields }) as LogFields),
+    });
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Root logger, for code running outside a request
+ */
+export const logger = new Logger();
+
+/**
+ * Request id of a request: its X-Request-Id if well-formed, else a new one
+ */
+export function getRequestId(request: Request): string {
+  const id = request.headers.get(REQUEST_ID_HEADER);
+  return id && /^[\w.:-]{1,128}$/.test(id) ? id : crypto.randomUUID();
+}
+
+/**
+ * Logger for handling a request in a service ('middleware', 'facilitator', ...)
+ */
+export function getRequestLogger(request: Request, service: string, requestId: string = getRequestId(request)): Logger {
+  return logger.child({ service, requestId, path: new URL(request.url).pathname });
+}
@@ -0,0 +1,230 @@
+/**
+ * Prometheus metrics
+ * Counters, gauges and histograms rendered in the Prometheus text format by
+ * GET /api/metrics. The facilitator's metrics are defined at the bottom of this file.
+ *
+ * Next.js bundles middleware.ts separately from the route handlers, so the registry
+ * lives on globalThis: both bundles record into the same metrics because the
+ * middleware runs on the Node.js runtime, in the process serving the routes (an
+ * edge middleware would have its own globals). Metrics are per process; Prometheus
+ * aggregates across instances.
+ */
+
+/**
+ * Label values of one series
+ */
+export type MetricLabels = Record<string, string>;
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'counter' | 'gauge' | 'histogram';
+  render(): string[];
+}
+
+const REGISTRY_KEY = Symbol.for('x402.metrics');
+
+function getRegistry(): Map<string, Metric> {
+  const scope = globalThis as typeof globalThis & { [REGISTRY_KEY]?: Map<string, Metric> };
+  if (!scope[REGISTRY_KEY]) {
+    scope[REGISTRY_KEY] = new Map();
+  }
+  return scope[REGISTRY_KEY];
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Series key of a label set: `a="1",b="2"`, sorted by label name
+ */
+function formatLabels(labels: MetricLabels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((key) => `${key}="${escapeLabelValue(labels[key])}"`)
+    .join(',');
+}
+
+function series(name: string, labels: string, value: number): string {
+  return `${name}${labels ? `{${labels}}` : ''} ${value}`;
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter implements Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: MetricLabels = {}, value: number = 1): void {
+    const key = formatLabels(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  render(): string[] {
+    return [...this.values].map(([labels, value]) => series(this.name, labels, value));
+  }
+}
+
+/**
+ * Value that goes up and down
+ */
+export class Gauge implements Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  set(labels: MetricLabels, value: number): void {
+    this.values.set(formatLabels(labels), value);
+  }
+
+  render(): string[] {
+    return [...this.values].map(([labels, value]) => series(this.name, labels, value));
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values over fixed buckets
+ */
+export class Histogram implements Metric {
+  readonly type = 'histogram';
+  private values = new Map<string, HistogramSeries>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+  observe(labels: MetricLabels, value: number): void {
+    const key = formatLabels(labels);
+    const entry = this.values.get(key) || { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      entry.counts[index]++;
+    }
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  /**
+   * Observe the seconds since `startedAt` (Date.now() milliseconds)
+   */
+  observeSince(labels: MetricLabels, startedAt: number): void {
+    this.observe(labels, (Date.now() - startedAt) / 1000);
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [labels, entry] of this.values) {
+      const withBound = (bound: string) => (labels ? `${labels},` : '') + `le="${bound}"`;
+      let cumulative = 0;
+      this.buckets.forEach((bound, index) => {
+        cumulative += entry.counts[index];
+        lines.push(series(`${this.name}_bucket`, withBound(String(bound)), cumulative));
+      });
+      lines.push(series(`${this.name}_bucket`, withBound('+Inf'), entry.count));
+      lines.push(series(`${this.name}_sum`, labels, entry.sum));
+      lines.push(series(`${this.name}_count`, labels, entry.count));
+    }
+    return lines;
+  }
+}
+
+/**
+ * Register a metric, or get the one already registered under its name
+ */
+function register<T extends Metric>(metric: T): T {
+  const registry = getRegistry();
+  const existing = registry.get(metric.name);
+  if (existing) {
+    return existing as T;
+  }
+  registry.set(metric.name, metric);
+  return metric;
+}
+
+/**
+ * Every registered metric in the Prometheus text exposition format (0.0.4)
+ */
+export function renderMetrics(): string {
+  const lines: string[] = [];
+  for (const metric of getRegistry().values()) {
+    lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Content-Type of renderMetrics() output
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// Seconds
+const SETTLEMENT_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+const RPC_BUCKETS = [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Verifications by result (valid/invalid) and spec error reason
+ */
+export const verifyResults = register(new Counter(
+  'x402_verify_total',
+  'Payment verifications by result and error reason'
+));
+
+/**
+ * Settlements by network, asset and result (success/failure); replays are not counted
+ */
+export const settlements = register(new Counter(
+  'x402_settlements_total',
+  'Settlements by network, asset and result'
+));
+
+/**
+ * Settlement latency by network, asset and mode (sync waits for inclusion, async only for broadcast)
+ */
+export const settlementDuration = register(new Histogram(
+  'x402_settlement_duration_seconds',
+  'Settlement latency in seconds by network, asset and mode',
+  SETTLEMENT_BUCKETS
+));
+
+/**
+ * Amounts of successful settlements, in whole units of the asset (scaled by its decimals)
+ */
+export const settledAmount = register(new Counter(
+  'x402_settled_amount_total',
+  'Amount settled by network and asset, in whole units of the asset'
+));
+
+/**
+ * 402 responses by route pattern
+ */
+export const paymentRequiredResponses = register(new Counter(
+  'x402_payment_required_total',
+  '402 Payment Required responses issued by route'
+));
+
+/**
+ * RPC call latency by network, provider (host), method and result
+ */
+export const rpcDuration = register(new Histogram(
+  'x402_rpc_request_duration_seconds',
+  'RPC call latency in seconds by network, provider, method and result',
+  RPC_BUCKETS
+));
+
+/**
+ * Wallet balances, refreshed by scrapes at most once per WALLET_BALANCE_TTL_SECONDS
+ */
+export const walletBalance = register(new Gauge(
+  'x402_wallet_balance',
+  'Wallet balances by network and wallet, in the native currency'
+));
@@ -0,0 +1,86 @@
+/**
+ * OpenTelemetry tracing
+ * Spans for each stage of a paid request: the middleware, its verify and settle
+ * calls to the facilitator, verification and settlement themselves, and RPC calls.
+ *
+ * The SDK is registered in instrumentation.ts; without it these spans are no-ops.
+ * The middleware injects the trace context (traceparent) into its fetches to the
+ * facilitator, and Next.js continues it in the route handlers, so one paid request
+ * is one trace across services.
+ *
+ * Only @opentelemetry/api is used here, so this module also runs in the middleware.
+ */
+
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+} from '@opentelemetry/api';
+
+export { SpanKind, type Span };
+
+const tracer = trace.getTracer('polkadot-x402');
+
+/**
+ * Mark a span failed, e.g. a rejected payment or a failed settlement
+ */
+export function failSpan(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  if (error instanceof Error) {
+    span.recordException(error);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Mark a span failed (if an error is given) and end it
+ */
+export function endSpan(span: Span, error?: unknown): void {
+  if (error) {
+    failSpan(span, error);
+  }
+  span.end();
+}
+
+/**
+ * Start a span, child of the active one
+ * The caller ends it with endSpan(); use withSpan() for spans that should be active
+ */
+export function startSpan(name: string, attributes: Attributes = {}, kind: SpanKind = SpanKind.INTERNAL): Span {
+  return tracer.startSpan(name, { attributes, kind });
+}
+
+/**
+ * Run `fn` in a new active span (spans started inside become its children)
+ * The span ends when `fn` settles; a thrown error marks it failed
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      const result = await fn(span);
+      span.end();
+      return result;
+    } catch (error) {
+      endSpan(span, error);
+      throw error;
+    }
+  });
+}
+
+/**
+ * Trace context headers (traceparent, tracestate) for an outgoing request
+ * made as part of `span` (default: the active span)
+ */
+export function getTraceHeaders(span?: Span): Record<string, string> {
+  const headers: Record<string, string> = {};
+  propagation.inject(span ? trace.setSpan(context.active(), span) : context.active(), headers);
+  return headers;
+}
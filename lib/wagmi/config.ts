@@ -1,43 +1,52 @@
 /**
- * Wagmi configuration for Polkadot Hub TestNet
+ * Wagmi configuration derived from the network registry (config/networks.json)
+ * The default network (NEXT_PUBLIC_NETWORK) is listed first so wallets connect to it
  */
 
-import { createConfig, http } from 'wagmi';
+import { createConfig, http, type Transport } from 'wagmi';
 import { injected } from 'wagmi/connectors';
+import { defineChain, type Chain } from 'viem';
+import { getNetworkConfig, getSupportedNetworks } from '@/lib/evm/networks';
+import { clientEnv } from '@/lib/env.client';
 
-// Polkadot Hub TestNet chain configuration
-const polkadotHubTestnet = {
-  id: 420420422,
-  name: 'Polkadot Hub TestNet',
-  nativeCurrency: {
-    name: 'PAS',
-    symbol: 'PAS',
-    decimals: 18,
-  },
-  rpcUrls: {
-    default: {
-      http: ['https://testnet-passet-hub-eth-rpc.polkadot.io'],
-    },
-  },
-  blockExplorers: {
-    default: {
-      name: 'Blockscout',
-      url: 'https://blockscout-passet-hub.parity-testnet.parity.io',
+/**
+ * Build a wagmi chain from a configured network
+ */
+function toChain(network: string): Chain {
+  const config = getNetworkConfig(network);
+  return defineChain({
+    id: config.chainId,
+    name: config.name,
+    nativeCurrency: config.nativeCurrency,
+    rpcUrls: {
+      default: {
+        http: config.rpcUrls,
+      },
     },
-  },
-  testnet: true,
-} as const;
+    blockExplorers: config.explorer
+      ? {
+          default: config.explorer,
+        }
+      : undefined,
+    testnet: config.testnet,
+  });
+}
+
+const defaultChain = toChain(clientEnv.NETWORK);
+const otherChains = getSupportedNetworks()
+  .filter((network) => network !== clientEnv.NETWORK)
+  .map(toChain);
+const chains: [Chain, ...Chain[]] = [defaultChain, ...otherChains];
 
 export const wagmiConfig = createConfig({
-  chains: [polkadotHubTestnet],
+  chains,
   connectors: [
     injected({
       target: 'metaMask',
     }),
     injected(),
   ],
-  transports: {
-    [polkadotHubTestnet.id]: http('https://testnet-passet-hub-eth-rpc.polkadot.io'),
-  },
+  transports: Object.fromEntries(
+    chains.map((chain) => [chain.id, http(chain.rpcUrls.default.http[0])])
+  ) as Record<number, Transport>,
 });
-
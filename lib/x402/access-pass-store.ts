@@ -0,0 +1,118 @@
+/**
+ * x402 Access Pass Usage
+ * Counts the requests made with each request-limited access pass
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { env } from '@/lib/env';
+
+/**
+ * Storage backend for access pass usage
+ */
+export interface AccessPassStore {
+  /**
+   * Atomically count one use of a pass allowing `maxUses` uses until `expiresAt` (unix seconds).
+   * Returns the uses left after this one, or null if the pass is used up.
+   */
+  use(id: string, maxUses: number, expiresAt: number): Promise<number | null>;
+}
+
+interface UsageEntry {
+  used: number;
+  expiresAt: number;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * In-memory access pass store
+ * Usage is lost on restart and is not shared between instances
+ */
+export class InMemoryAccessPassStore implements AccessPassStore {
+  protected entries = new Map<string, UsageEntry>();
+
+  async use(id: string, maxUses: number, expiresAt: number): Promise<number | null> {
+    this.prune();
+    const entry = this.entries.get(id) || { used: 0, expiresAt };
+    if (entry.used >= maxUses) {
+      return null;
+    }
+    entry.used += 1;
+    this.entries.set(id, entry);
+    return maxUses - entry.used;
+  }
+
+  /**
+   * Drop passes that have expired
+   */
+  protected prune(): void {
+    const now = nowSeconds();
+    for (const [id, entry] of this.entries) {
+      if (entry.expiresAt < now) {
+        this.entries.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed access pass store
+ * Persists usage as JSON so it survives restarts of a single instance
+ */
+export class FileAccessPassStore extends InMemoryAccessPassStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  async use(id: string, maxUses: number, expiresAt: number): Promise<number | null> {
+    const remaining = await super.use(id, maxUses, expiresAt);
+    if (remaining !== null) {
+      this.persist();
+    }
+    return remaining;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, UsageEntry>;
+    this.entries = new Map(Object.entries(data));
+    this.prune();
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+let accessPassStore: AccessPassStore | null = null;
+
+/**
+ * Get the configured access pass store (ACCESS_PASS_STORE=memory|file)
+ */
+export function getAccessPassStore(): AccessPassStore {
+  if (!accessPassStore) {
+    accessPassStore = env.ACCESS_PASS_STORE === 'file'
+      ? new FileAccessPassStore(env.ACCESS_PASS_STORE_PATH)
+      : new InMemoryAccessPassStore();
+  }
+  return accessPassStore;
+}
+
+/**
+ * Replace the access pass store (useful for testing or custom shared backends)
+ */
+export function setAccessPassStore(store: AccessPassStore): void {
+  accessPassStore = store;
+}
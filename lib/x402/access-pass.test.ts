@@ -0,0 +1,29 @@
+/**
+ * Access pass tests
+ * Passes are signed with the secret derived from FACILITATOR_PRIVATE_KEY
+ */
+
+import { describe, expect, it } from 'vitest';
+import { createAccessPass, verifyAccessPass } from './access-pass';
+
+const PASS = { group: 'forecast', requests: 10 };
+
+describe('access pass seller', () => {
+  it('opens the routes of the seller it was bought from', async () => {
+    const { token, pass } = await createAccessPass(PASS, { network: 'polkadot-hub-testnet', seller: 'seller-a' });
+
+    expect(await verifyAccessPass(token, 'forecast', 'seller-a')).toEqual({ pass });
+  });
+
+  it('does not open another seller\'s routes in the same group', async () => {
+    const { token } = await createAccessPass(PASS, { network: 'polkadot-hub-testnet', seller: 'seller-a' });
+
+    expect(await verifyAccessPass(token, 'forecast', 'seller-b')).toEqual({ error: 'Access pass was bought from another seller' });
+  });
+
+  it('does not open routes of another group', async () => {
+    const { token } = await createAccessPass(PASS, { network: 'polkadot-hub-testnet', seller: 'seller-a' });
+
+    expect(await verifyAccessPass(token, 'reports', 'seller-a')).toEqual({ error: 'Access pass is not valid for this route' });
+  });
+});
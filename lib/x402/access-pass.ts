@@ -0,0 +1,103 @@
+/**
+ * x402 Access Passes
+ * Routes with a `pass` in config/pricing.json sell a pass instead of a single request:
+ * after the payment settles, the response carries a signed pass granting a number of
+ * requests and/or a time window on every route of the pass's group sold by the
+ * same seller
+ *
+ * Passes are bearer tokens. Request-limited passes are counted server-side
+ * (see access-pass-store.ts), so a copied pass shares the same allowance.
+ */
+
+import { ethers } from 'ethers';
+import { readToken, signToken } from './signed-token';
+
+/**
+ * Header carrying the pass on the paid response and on later requests
+ */
+export const ACCESS_PASS_HEADER = 'X-402-Access-Pass';
+
+/**
+ * Response header with the requests left on a request-limited pass
+ */
+export const ACCESS_PASS_REMAINING_HEADER = 'X-402-Access-Pass-Remaining';
+
+/**
+ * Lifetime of passes that only limit the number of requests (seconds)
+ */
+export const DEFAULT_PASS_DURATION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Access pass settings of a route
+ */
+export interface AccessPassSettings {
+  group?: string; // Routes sharing a group accept each other's passes (default: the route pattern)
+  requests?: number; // Requests granted, including the paid one
+  durationSeconds?: number; // How long the pass is valid (default 24 hours when only `requests` is set)
+}
+
+/**
+ * Signed contents of a pass
+ */
+export interface AccessPass {
+  id: string;
+  group: string;
+  seller: string; // Id of the seller the pass was bought from (see sellers.ts)
+  payer?: string; // Lower-cased address that paid for the pass
+  network: string;
+  maxUses?: number; // Requests left after the paid one; unlimited within the window if unset
+  expiresAt: number; // Unix seconds
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Issue a pass after a successful settlement
+ * The paid request counts as the first of `requests`
+ */
+export async function createAccessPass(
+  settings: AccessPassSettings & { group: string },
+  payment: { network: string; seller: string; payer?: string }
+): Promise<{ token: string; pass: AccessPass }> {
+  const pass: AccessPass = {
+    id: ethers.hexlify(ethers.randomBytes(16)),
+    group: settings.group,
+    seller: payment.seller,
+    payer: payment.payer?.toLowerCase(),
+    network: payment.network,
+    maxUses: settings.requests !== undefined ? settings.requests - 1 : undefined,
+    expiresAt: nowSeconds() + (settings.durationSeconds ?? DEFAULT_PASS_DURATION_SECONDS),
+  };
+  return { token: await signToken('access-pass', pass), pass };
+}
+
+/**
+ * Check a pass's signature, expiry, group and seller
+ * A pass only opens routes of the seller it was paid to, even when several sellers share a group
+ * Does not count usage; request-limited passes must also be redeemed with the store
+ */
+export async function verifyAccessPass(
+  token: string,
+  group: string,
+  seller: string
+): Promise<{ pass: AccessPass } | { error: string }> {
+  const result = await readToken<AccessPass>('access-pass', token);
+  if ('error' in result) {
+    return { error: result.error === 'signature' ? 'Invalid access pass signature' : 'Malformed access pass' };
+  }
+  const pass = result.payload;
+
+  if (pass.expiresAt < nowSeconds()) {
+    return { error: 'Access pass expired' };
+  }
+  if (pass.group !== group) {
+    return { error: 'Access pass is not valid for this route' };
+  }
+  if (pass.seller !== seller) {
+    return { error: 'Access pass was bought from another seller' };
+  }
+
+  return { pass };
+}
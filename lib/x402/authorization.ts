@@ -0,0 +1,91 @@
+/**
+ * x402 Payment Authorization typed data and validity windows
+ * Shared by signing, verification and settlement
+ */
+
+import { env } from '@/lib/env';
+import type { PaymentRequirements } from '@/types/x402';
+
+/**
+ * Default authorization lifetime when requirements omit maxTimeoutSeconds
+ */
+export const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+/**
+ * EIP-712 types for native x402 payment authorizations
+ * Must match PAYMENT_AUTHORIZATION_TYPEHASH in contracts/X402Escrow.sol
+ */
+export const PAYMENT_AUTHORIZATION_TYPES = {
+  PaymentAuthorization: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'amount', type: 'uint256' },
+    { name: 'nonce', type: 'bytes32' },
+    { name: 'validAfter', type: 'uint256' },
+    { name: 'validBefore', type: 'uint256' },
+    { name: 'resource', type: 'string' },
+    { name: 'network', type: 'string' },
+  ],
+};
+
+/**
+ * Validity window of an authorization (unix seconds)
+ */
+export interface AuthorizationWindow {
+  validAfter: number;
+  validBefore: number;
+}
+
+/**
+ * Get the seller's maximum authorization lifetime from the requirements
+ */
+export function getMaxTimeoutSeconds(requirements: PaymentRequirements): number {
+  return requirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS;
+}
+
+/**
+ * Build the validity window a buyer should sign for the given requirements
+ * validAfter is backdated by the clock-skew tolerance so slightly slow clocks still accept it
+ */
+export function createAuthorizationWindow(
+  requirements: PaymentRequirements,
+  now: number = Math.floor(Date.now() / 1000)
+): AuthorizationWindow {
+  return {
+    validAfter: now - env.CLOCK_SKEW_SECONDS,
+    validBefore: now + getMaxTimeoutSeconds(requirements),
+  };
+}
+
+/**
+ * Check a signed validity window against the current time and the seller's maxTimeoutSeconds
+ * Returns an error message, or null if the window is acceptable
+ */
+export function checkAuthorizationWindow(
+  window: AuthorizationWindow,
+  requirements: PaymentRequirements,
+  now: number = Math.floor(Date.now() / 1000)
+): string | null {
+  const skew = env.CLOCK_SKEW_SECONDS;
+  const { validAfter, validBefore } = window;
+
+  if (!Number.isFinite(validAfter) || !Number.isFinite(validBefore) || validBefore <= validAfter) {
+    return 'Invalid authorization window';
+  }
+
+  if (now + skew < validAfter) {
+    return 'Payment authorization is not yet valid';
+  }
+
+  if (now - skew >= validBefore) {
+    return 'Payment authorization expired';
+  }
+
+  // Sellers cap how far into the future an authorization may remain usable
+  const maxTimeout = getMaxTimeoutSeconds(requirements);
+  if (validBefore > now + maxTimeout + skew) {
+    return `Authorization window exceeds maxTimeoutSeconds (${maxTimeout}s)`;
+  }
+
+  return null;
+}
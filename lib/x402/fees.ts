@@ -0,0 +1,168 @@
+/**
+ * x402 Facilitator Fees
+ * The platform's fee model is declared in config/fees.json and validated when
+ * this module loads. A fee is taken out of the payment at settlement: the seller
+ * receives the amount minus the fee and the fee recipient receives the fee.
+ *
+ * The schedule for a payment is the seller's (`sellers`), else the network's
+ * (`networks`), else `default`. A schedule charges `flat + amount * bps / 10000`,
+ * at least `min` and never more than the amount.
+ *
+ * Fees apply to native payments only: an EIP-3009 authorization moves its full
+ * value to `payTo` and cannot be split.
+ */
+
+import { ethers } from 'ethers';
+import feesConfig from '@/config/fees.json';
+import { addresses } from '@/lib/env';
+import { isNetworkSupported } from '@/lib/evm/networks';
+
+/**
+ * Fee schedule settings
+ */
+export interface FeeScheduleSettings {
+  flat?: string; // Fixed fee in the asset's smallest unit
+  bps?: number; // Fee in basis points of the amount (100 = 1%)
+  min?: string; // Minimum fee in the asset's smallest unit
+  recipient?: string; // Overrides the top-level recipient
+}
+
+/**
+ * config/fees.json
+ */
+export interface FeesConfig {
+  recipient?: string | null; // Receives fees (default: the facilitator address)
+  default?: FeeScheduleSettings;
+  networks?: Record<string, FeeScheduleSettings>;
+  sellers?: Record<string, FeeScheduleSettings>; // Keyed by seller (payTo) address
+}
+
+/**
+ * Resolved fee schedule, as advertised in `extra.fee`
+ */
+export interface FeeSchedule {
+  recipient: string;
+  flat: string;
+  bps: number;
+  min: string;
+}
+
+/**
+ * A fee charged on one payment
+ */
+export interface FeeCharge {
+  amount: string;
+  recipient: string;
+}
+
+const BPS_DENOMINATOR = BigInt(10000);
+
+/**
+ * Resolve and validate one schedule; returns null for schedules that charge nothing
+ */
+function resolveSchedule(name: string, settings: FeeScheduleSettings | undefined, recipient: string): FeeSchedule | null {
+  if (!settings) {
+    return null;
+  }
+  const fail = (message: string): never => {
+    throw new Error(`Invalid fee schedule ${name}: ${message}`);
+  };
+
+  const schedule: FeeSchedule = {
+    recipient: settings.recipient ?? recipient,
+    flat: settings.flat ?? '0',
+    bps: settings.bps ?? 0,
+    min: settings.min ?? '0',
+  };
+  if (!/^\d+$/.test(schedule.flat) || !/^\d+$/.test(schedule.min)) {
+    fail('flat and min must be integer strings');
+  }
+  if (!Number.isInteger(schedule.bps) || schedule.bps < 0 || schedule.bps > 10000) {
+    fail('bps must be an integer between 0 and 10000');
+  }
+  if (!ethers.isAddress(schedule.recipient)) {
+    fail(`recipient ${schedule.recipient} is not an address`);
+  }
+
+  const charges = schedule.flat !== '0' || schedule.bps !== 0 || schedule.min !== '0';
+  return charges ? { ...schedule, recipient: ethers.getAddress(schedule.recipient) } : null;
+}
+
+// JSON is untyped; every schedule is validated below
+const config = feesConfig as unknown as FeesConfig;
+const RECIPIENT = config.recipient || addresses.facilitator;
+const DEFAULT_SCHEDULE = resolveSchedule('default', config.default, RECIPIENT);
+const NETWORK_SCHEDULES = new Map(
+  Object.entries(config.networks || {}).map(([network, settings]) => {
+    if (!isNetworkSupported(network)) {
+      throw new Error(`Invalid fee schedule networks.${network}: network is not configured`);
+    }
+    return [network, resolveSchedule(`networks.${network}`, settings, RECIPIENT)];
+  })
+);
+const SELLER_SCHEDULES = new Map(
+  Object.entries(config.sellers || {}).map(([seller, settings]) => {
+    if (!ethers.isAddress(seller)) {
+      throw new Error(`Invalid fee schedule sellers.${seller}: not an address`);
+    }
+    return [seller.toLowerCase(), resolveSchedule(`sellers.${seller}`, settings, RECIPIENT)];
+  })
+);
+
+/**
+ * Fee schedule for a seller on a network, or null if no fee is charged
+ */
+export function getFeeSchedule(network: string, seller?: string): FeeSchedule | null {
+  const key = seller?.toLowerCase();
+  if (key && SELLER_SCHEDULES.has(key)) {
+    return SELLER_SCHEDULES.get(key) || null;
+  }
+  if (NETWORK_SCHEDULES.has(network)) {
+    return NETWORK_SCHEDULES.get(network) || null;
+  }
+  return DEFAULT_SCHEDULE;
+}
+
+/**
+ * Fee on an amount under a schedule
+ */
+export function calculateFee(amount: string | bigint, schedule: FeeSchedule | null): bigint {
+  const value = BigInt(amount);
+  if (!schedule || value === BigInt(0)) {
+    return BigInt(0);
+  }
+  let fee = BigInt(schedule.flat) + (value * BigInt(schedule.bps)) / BPS_DENOMINATOR;
+  if (fee < BigInt(schedule.min)) {
+    fee = BigInt(schedule.min);
+  }
+  return fee > value ? value : fee;
+}
+
+/**
+ * Fee charged on a native payment to a seller, or null if there is none
+ */
+export function getFeeCharge(network: string, seller: string, amount: string | bigint): FeeCharge | null {
+  const schedule = getFeeSchedule(network, seller);
+  const fee = calculateFee(amount, schedule);
+  return schedule && fee > BigInt(0) ? { amount: fee.toString(), recipient: schedule.recipient } : null;
+}
+
+/**
+ * `extra.fee` of a requirement: the schedule and, for a known amount, the fee it charges
+ * Returns undefined when no fee applies (including token payments)
+ */
+export function getRequirementFee(
+  network: string,
+  asset: string,
+  seller: string,
+  amount?: string
+): (FeeSchedule & { amount?: string }) | undefined {
+  if (asset !== 'native' && asset !== ethers.ZeroAddress) {
+    return undefined;
+  }
+  const schedule = getFeeSchedule(network, seller);
+  if (!schedule) {
+    return undefined;
+  }
+  return amount === undefined ? schedule : { ...schedule, amount: calculateFee(amount, schedule).toString() };
+}
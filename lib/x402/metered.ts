@@ -0,0 +1,140 @@
+/**
+ * x402 "upto" Metered Payments
+ * The middleware only verifies the buyer's maximum authorization and forwards it
+ * to the route handler, which settles the amount it actually consumed
+ */
+
+import type { PaymentRequirements, SettlementResult } from '@/types/x402';
+import { env } from '@/lib/env';
+import { getSellerByPayTo } from './sellers';
+import { getSellerAuthHeaders } from './seller-auth';
+import { REQUEST_ID_HEADER } from '@/lib/logger';
+import { getTraceHeaders } from '@/lib/tracing';
+
+/**
+ * Request headers the middleware uses to hand a verified "upto" payment to the route handler
+ * They are always overwritten by the middleware, so clients cannot inject them
+ */
+export const METERED_PAYMENT_HEADER = 'x-x402-metered-payload';
+export const METERED_REQUIREMENTS_HEADER = 'x-x402-metered-requirements';
+
+/**
+ * A verified "upto" payment awaiting settlement
+ */
+export interface MeteredPayment {
+  payload: string;
+  requirements: PaymentRequirements;
+  maxAmount: string; // Most the handler may charge for this request
+  requestId?: string; // Forwarded to the facilitator to correlate logs
+}
+
+/**
+ * Read the verified "upto" payment forwarded by the middleware
+ * Returns null if the request did not pass through an "upto" route
+ */
+export function getMeteredPayment(request: Request): MeteredPayment | null {
+  const payload = request.headers.get(METERED_PAYMENT_HEADER);
+  const requirementsHeader = request.headers.get(METERED_REQUIREMENTS_HEADER);
+  if (!payload || !requirementsHeader) {
+    return null;
+  }
+
+  try {
+    const requirements = JSON.parse(requirementsHeader) as PaymentRequirements;
+    if (requirements.scheme !== 'upto') {
+      return null;
+    }
+    return {
+      payload,
+      requirements,
+      maxAmount: requirements.maxAmountRequired || '0',
+      requestId: request.headers.get(REQUEST_ID_HEADER) || undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Result of settling a metered payment
+ */
+export interface MeteredSettlementResult extends SettlementResult {
+  amount: string; // Amount charged, after capping at the authorized maximum
+}
+
+/**
+ * Settle the consumed part of a metered payment via the facilitator
+ * Amounts above the authorized maximum are capped at the maximum
+ */
+export async function settleMeteredPayment(
+  payment: MeteredPayment,
+  amount: bigint | string,
+  mode: 'sync' | 'async' = 'sync'
+): Promise<MeteredSettlementResult> {
+  const consumed = BigInt(amount);
+  const maxAmount = BigInt(payment.maxAmount);
+  const settleAmount = consumed > maxAmount ? maxAmount : consumed < BigInt(0) ? BigInt(0) : consumed;
+
+  // Ensure FACILITATOR_URL is the base path, not the settle endpoint
+  let facilitatorBaseUrl = env.FACILITATOR_URL || '/api/facilitator';
+  if (facilitatorBaseUrl.includes('/settle') || facilitatorBaseUrl.includes('/verify')) {
+    facilitatorBaseUrl = facilitatorBaseUrl.split('/').slice(0, -1).join('/') || '/api/facilitator';
+  }
+
+  // The request is signed as the seller that was paid
+  const seller = payment.requirements.payTo ? getSellerByPayTo(payment.requirements.payTo) : null;
+  const settleUrl = `${facilitatorBaseUrl}/settle`;
+  const settleBody = JSON.stringify({
+    payload: payment.payload,
+    details: payment.requirements,
+    mode,
+    amount: settleAmount.toString(),
+  });
+
+  try {
+    const settleResponse = await fetch(settleUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(payment.requestId ? { [REQUEST_ID_HEADER]: payment.requestId } : {}),
+        // Continues the route handler's trace in the facilitator
+        ...getTraceHeaders(),
+        ...(seller ? await getSellerAuthHeaders(seller, 'POST', settleUrl, settleBody) : {}),
+      },
+      body: settleBody,
+    });
+
+    if (!settleResponse.ok) {
+      const errorData = await settleResponse.json().catch(() => ({}));
+      return {
+        success: false,
+        error: errorData.error || `Settlement failed: ${settleResponse.statusText}`,
+        code: errorData.code,
+        amount: settleAmount.toString(),
+      };
+    }
+
+    const result: SettlementResult = await settleResponse.json();
+    return { ...result, amount: settleAmount.toString() };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Settlement request failed',
+      amount: settleAmount.toString(),
+    };
+  }
+}
+
+/**
+ * X-Payment-Response header value for a settled metered payment
+ */
+export function getMeteredPaymentResponse(result: MeteredSettlementResult): string {
+  return JSON.stringify({
+    transactionHash: result.transactionHash,
+    settled: result.success && result.status !== 'pending',
+    status: result.status || (result.success ? 'confirmed' : 'failed'),
+    settlementId: result.settlementId,
+    amount: result.amount,
+    receipt: result.receipt,
+  });
+}
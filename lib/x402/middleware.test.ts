@@ -0,0 +1,137 @@
+/**
+ * withX402 tests
+ * Payments are verified by a mocked verifyX402Payment and settled from the
+ * buyer wallet with the transaction manager mocked; records and nonces live
+ * in in-memory stores
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { env } from '@/lib/env';
+import { InMemoryNonceStore, setNonceStore } from './nonce-store';
+import { InMemorySettlementStore, setSettlementStore } from './settlement-store';
+import { withX402 } from './middleware';
+
+const { send, provider } = vi.hoisted(() => ({
+  send: vi.fn(),
+  provider: {
+    getBalance: vi.fn(),
+    getBlock: vi.fn(),
+  },
+}));
+
+vi.mock('@/lib/evm/wallet', async () => {
+  const { ethers } = await import('ethers');
+  const { env } = await import('@/lib/env');
+  const buyer = new ethers.Wallet(env.BUYER_PRIVATE_KEY);
+  return {
+    getBuyerWallet: vi.fn(() => ({ getAddress: async () => buyer.address, provider })),
+    getProvider: vi.fn(() => provider),
+    getWallet: vi.fn(() => new ethers.Wallet(env.FACILITATOR_PRIVATE_KEY)),
+  };
+});
+
+vi.mock('@/lib/evm/tx-manager', () => ({
+  getTransactionManager: vi.fn(() => ({ send })),
+  getManagedTransaction: vi.fn(() => null),
+}));
+
+vi.mock('./verify', () => ({
+  verifyX402Payment: vi.fn(async () => ({ valid: true, details: { from: buyer.address, amount: AMOUNT.toString() } })),
+}));
+
+const WEATHER_URL = 'http://localhost:3000/api/protected/weather';
+const AMOUNT = ethers.parseEther('1');
+const buyer = new ethers.Wallet(env.BUYER_PRIVATE_KEY);
+
+/**
+ * A buyer-wallet payment header (verification is mocked)
+ */
+function paymentHeader(): string {
+  const now = Math.floor(Date.now() / 1000);
+  const payment = {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'polkadot-hub-testnet',
+    payload: {
+      signature: '0x',
+      authorization: {
+        from: buyer.address,
+        to: env.SELLER_ADDRESS,
+        amount: AMOUNT.toString(),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+        validAfter: now - 60,
+        validBefore: now + 300,
+        resource: '/api/protected/weather',
+        network: 'polkadot-hub-testnet',
+      },
+    },
+  };
+  return Buffer.from(JSON.stringify(payment)).toString('base64');
+}
+
+function paidRequest(payment: string): NextRequest {
+  const details = { network: 'polkadot-hub-testnet', asset: 'native', payTo: env.SELLER_ADDRESS };
+  return new NextRequest(WEATHER_URL, {
+    headers: { 'X-402-Payment': payment, 'X-402-Payment-Details': JSON.stringify(details) },
+  });
+}
+
+const handler = vi.fn(async () => {
+  // Long enough for a concurrent request to arrive while this one is served
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  return NextResponse.json({ forecast: 'sunny' });
+});
+
+beforeEach(() => {
+  setSettlementStore(new InMemorySettlementStore());
+  setNonceStore(new InMemoryNonceStore());
+  handler.mockClear();
+  send.mockReset();
+  send.mockImplementation(async () => {
+    const hash = ethers.hexlify(ethers.randomBytes(32));
+    return { hash, wait: async () => ({ status: 1, hash, blockNumber: 5 }) };
+  });
+  provider.getBalance.mockResolvedValue(ethers.parseEther('10'));
+  provider.getBlock.mockResolvedValue({ timestamp: Math.floor(Date.now() / 1000) });
+});
+
+describe('serving each payment once', () => {
+  it('runs the handler once for concurrent requests carrying the same payment', async () => {
+    const route = withX402(handler);
+    const payment = paymentHeader();
+
+    const responses = await Promise.all([route(paidRequest(payment), {}), route(paidRequest(payment), {})]);
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(responses.map((response) => response.status).sort()).toEqual([200, 402]);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a payment repeated after it was settled', async () => {
+    const route = withX402(handler);
+    const payment = paymentHeader();
+
+    const first = await route(paidRequest(payment), {});
+    const repeat = await route(paidRequest(payment), {});
+
+    expect(first.status).toBe(200);
+    expect(repeat.status).toBe(402);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('refuses a payment repeated after it was voided', async () => {
+    const route = withX402(vi.fn(async () => NextResponse.json({ error: 'Upstream failed' }, { status: 502 })));
+    const payment = paymentHeader();
+
+    const failed = await route(paidRequest(payment), {});
+    const repeat = await withX402(handler)(paidRequest(payment), {});
+
+    expect(failed.headers.get('X-Payment-Charged')).toBe('false');
+    expect(repeat.status).toBe(402);
+    expect(handler).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+});
@@ -1,42 +1,73 @@
 /**
  * x402 Payment Protection Middleware
  * Protects API endpoints by requiring x402 payment
+ *
+ * Unlike the global middleware.ts, withX402 runs inside the route handler, so the
+ * payment is only settled once the handler has produced a successful response.
+ * Both price routes from config/pricing.json.
  */
 
-import { NextRequest } from 'next/server';
-import type { PaymentRequirements } from '@/types/x402';
+import { NextRequest, NextResponse } from 'next/server';
+import type { PaymentRequirements, VerificationResult } from '@/types/x402';
 import { verifyX402Payment } from './verify';
-import { getWalletAddress } from '@/lib/evm/wallet';
-import { getNetworkConfig } from '@/lib/evm/networks';
-
-/**
- * Payment requirement configuration
- */
-export interface PaymentConfig {
-  amount: string; // Amount in smallest unit (e.g., wei for ETH)
-  token?: string; // Token contract address (optional, defaults to native token)
-  network: string; // Network identifier
-  description?: string; // Description of what the payment is for
-}
+import { reserveX402Payment, settleX402Payment, voidX402Payment } from './settle';
+import { RECEIPT_HEADER } from './receipt';
+import { getQuotedRoutePrice, getRoutePrice, quoteRoutePrice, selectPaymentOption, type RoutePrice } from './pricing';
+import { createPaymentRequiredResponse, getOptionRequirements, getRouteSeller } from './payment-required';
+import { QUOTE_HEADER } from './quote';
+import { ACCESS_PASS_HEADER, ACCESS_PASS_REMAINING_HEADER, createAccessPass, verifyAccessPass } from './access-pass';
+import { getAccessPassStore } from './access-pass-store';
+import type { Seller } from './sellers';
+import { enforceRateLimit, getPayloadPayer } from './rate-limit';
+import { getRequestLogger } from '@/lib/logger';
+import {
+  decodePaymentHeader,
+  encodeHeaderValue,
+  fromCaip2Network,
+  getPayer,
+  getPaymentRequirements,
+  LEGACY_PAYMENT_DETAILS_HEADER,
+  LEGACY_PAYMENT_HEADER,
+  PAYMENT_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  PAYMENT_RESPONSE_HEADER_V2,
+  PAYMENT_SIGNATURE_HEADER,
+  toFacilitatorSettleResponse,
+} from './protocol';
 
 /**
  * Extract payment payload from request headers
- * x402 protocol typically uses X-402-Payment header
+ * Spec clients send X-PAYMENT (v1) or PAYMENT-SIGNATURE (v2); legacy clients send
+ * X-402-Payment and optionally X-402-Payment-Details
  */
 export function extractPaymentFromRequest(request: NextRequest): {
   payload: string | null;
   details: PaymentRequirements | null;
+  format: 'spec' | 'legacy';
 } {
+  const specHeader = request.headers.get(PAYMENT_HEADER) || request.headers.get(PAYMENT_SIGNATURE_HEADER);
+  if (specHeader) {
+    const payment = decodePaymentHeader(specHeader);
+    if (!payment) {
+      return { payload: null, details: null, format: 'spec' };
+    }
+    return {
+      payload: JSON.stringify(payment),
+      details: getPaymentRequirements(payment) as PaymentRequirements,
+      format: 'spec',
+    };
+  }
+
   // Check for x402 payment header
-  const paymentHeader = request.headers.get('X-402-Payment');
-  const detailsHeader = request.headers.get('X-402-Payment-Details');
+  const paymentHeader = request.headers.get(LEGACY_PAYMENT_HEADER);
+  const detailsHeader = request.headers.get(LEGACY_PAYMENT_DETAILS_HEADER);
 
   if (!paymentHeader) {
-    return { payload: null, details: null };
+    return { payload: null, details: null, format: 'legacy' };
   }
 
   let details: PaymentRequirements | null = null;
-  
+
   if (detailsHeader) {
     try {
       details = JSON.parse(detailsHeader);
@@ -48,88 +79,169 @@ export function extractPaymentFromRequest(request: NextRequest): {
   return {
     payload: paymentHeader,
     details,
+    format: 'legacy',
   };
 }
 
 /**
- * Generate 402 Payment Required response
+ * Redeem one request of an access pass
+ * Request-limited passes are counted in the access pass store, which the
+ * facilitator's /access-pass endpoint shares
  */
-export async function generate402Response(
-  resource: string,
-  config: PaymentConfig
-): Promise<Response> {
-  const networkConfig = getNetworkConfig(config.network);
-  const facilitatorAddress = await getWalletAddress(config.network);
-
-  const response = {
-    maxAmountRequired: config.amount,
-    resource,
-    description: config.description || 'Access to this resource requires payment.',
-    payTo: facilitatorAddress,
-    asset: config.token || 'native', // 'native' means native token (PAS for Polkadot Hub)
-    network: config.network,
-    x402Version: 1,
-    scheme: 'exact',
-    extra: {},
-  };
+async function redeemAccessPass(
+  token: string,
+  group: string,
+  seller: Seller
+): Promise<{ valid: true; remaining?: number } | { valid: false; error: string }> {
+  const result = await verifyAccessPass(token, group, seller.id);
+  if ('error' in result) {
+    return { valid: false, error: result.error };
+  }
+  const { pass } = result;
+  if (pass.maxUses === undefined) {
+    return { valid: true };
+  }
+  const remaining = await getAccessPassStore().use(pass.id, pass.maxUses, pass.expiresAt);
+  if (remaining === null) {
+    return { valid: false, error: 'Access pass used up' };
+  }
+  return { valid: true, remaining };
+}
 
-  return new Response(JSON.stringify(response), {
-    status: 402,
-    headers: {
-      'Content-Type': 'application/json',
-      'X-402-Required': 'true',
-    },
-  });
+/**
+ * Outcome of protectWithX402
+ * An authorized request carries either a verified payment or a redeemed access pass
+ */
+export interface X402Protection {
+  authorized: boolean;
+  response?: Response;
+  paymentDetails?: VerificationResult['details'];
+  payload?: string;
+  requirements?: PaymentRequirements;
+  format?: 'spec' | 'legacy';
+  price?: RoutePrice; // Narrowed to the option the payment was made with
+  accessPassRemaining?: number; // Requests left on a redeemed request-limited pass
 }
 
 /**
- * Protect an endpoint with x402 payment requirement
+ * Protect an endpoint with x402 payment requirement, priced by config/pricing.json
+ * Accepts every option of the route, hook-priced quotes and access passes, like
+ * the global middleware. Only verifies the payment; settle it with
+ * settleX402Payment (or use withX402)
  */
-export async function protectWithX402(
-  request: NextRequest,
-  resource: string,
-  config: PaymentConfig
-): Promise<{ authorized: boolean; response?: Response; paymentDetails?: any }> {
+export async function protectWithX402(request: NextRequest, routePrice: RoutePrice): Promise<X402Protection> {
   // Extract payment from request
-  const { payload, details } = extractPaymentFromRequest(request);
+  const { payload, details, format } = extractPaymentFromRequest(request);
+
+  // A valid access pass for the route's group replaces payment (a new payment buys a new pass)
+  const accessPass = request.headers.get(ACCESS_PASS_HEADER);
+  if (routePrice.pass && accessPass && !payload) {
+    const redemption = await redeemAccessPass(accessPass, routePrice.pass.group, getRouteSeller(request.nextUrl.pathname));
+    if (!redemption.valid) {
+      const response = await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+        error: redemption.error,
+        headers: { 'X-402-Error': redemption.error },
+      });
+      return { authorized: false, response };
+    }
+    return { authorized: true, accessPassRemaining: redemption.remaining };
+  }
 
-  // If no payment provided, return 402
+  // If no payment provided, return 402 (hook-priced routes get a signed quote)
   if (!payload || !details) {
-    const response = await generate402Response(resource, config);
+    const response = await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: format === 'spec' ? 'Invalid X-PAYMENT header' : undefined,
+    });
     return { authorized: false, response };
   }
 
-  // Verify payment requirements match config
-  if (details.network !== config.network) {
-    const response = await generate402Response(resource, config);
+  // Paying addresses are limited on routes listed in config/rate-limits.json
+  const limited = await enforceRateLimit(request, { payer: getPayloadPayer(payload) });
+  if (limited) {
+    return { authorized: false, response: limited };
+  }
+
+  // Hook-priced routes charge the amount quoted in the 402, not a freshly computed one
+  const x402Version = details.x402Version || 1;
+  const quoted = await getQuotedRoutePrice(
+    request,
+    routePrice,
+    request.headers.get(QUOTE_HEADER) || details.extra?.quote
+  );
+  if ('error' in quoted) {
+    const response = await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: quoted.error,
+      x402Version,
+      headers: { 'X-402-Error': quoted.error },
+    });
+    return { authorized: false, response };
+  }
+
+  // Verify against whichever advertised option the payment was made with
+  const price = selectPaymentOption(quoted.price, {
+    network: details.network ? fromCaip2Network(details.network) : undefined,
+    asset: details.asset || undefined,
+  });
+  if (!price) {
+    const response = await createPaymentRequiredResponse(request, quoted.price, {
+      error: 'Payment option not accepted',
+      x402Version,
+      headers: { 'X-402-Error': 'Payment option not accepted' },
+    });
     return { authorized: false, response };
   }
 
+  // Verify against the seller's requirements, never client-supplied payTo or amount
+  const requirements = getOptionRequirements(request, price, price, x402Version);
+
   // Verify the payment payload
-  const verificationResult = await verifyX402Payment(payload, details);
+  const verificationResult = await verifyX402Payment(payload, requirements);
 
   if (!verificationResult.valid) {
     // Payment invalid, return 402 again
-    const response = await generate402Response(resource, config);
+    const error = (verificationResult.error || 'Invalid payment').replace(/\n/g, ' ').substring(0, 200);
+    const response = await createPaymentRequiredResponse(request, price, {
+      error: 'Payment verification failed',
+      x402Version,
+      body: { details: error, code: verificationResult.code },
+      headers: { 'X-402-Error': error },
+    });
+    return { authorized: false, response };
+  }
+
+  // A quote made for a specific payer is only honoured for that payer's payments
+  if (quoted.payer && verificationResult.details?.from?.toLowerCase() !== quoted.payer) {
+    const response = await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: 'Price quote was issued for a different payer',
+      x402Version,
+      headers: { 'X-402-Error': 'Quote payer mismatch' },
+    });
     return { authorized: false, response };
   }
 
   // Payment is valid, check if amount meets requirement
   if (verificationResult.details) {
     const paidAmount = BigInt(verificationResult.details.amount || '0');
-    const requiredAmount = BigInt(config.amount);
+    const requiredAmount = BigInt(price.amount);
 
     if (paidAmount < requiredAmount) {
-      const response = await generate402Response(resource, config);
+      const response = await createPaymentRequiredResponse(request, price, {
+        error: 'Insufficient payment amount',
+        x402Version,
+        headers: { 'X-402-Error': 'Insufficient payment' },
+      });
       return { authorized: false, response };
     }
 
-    // Check token matches if specified
-    if (config.token && verificationResult.details.token) {
-      if (verificationResult.details.token.toLowerCase() !== config.token.toLowerCase()) {
-        const response = await generate402Response(resource, config);
-        return { authorized: false, response };
-      }
+    // Check token matches the option's asset
+    const token = verificationResult.details.token;
+    if (token && price.asset !== 'native' && token.toLowerCase() !== price.asset.toLowerCase()) {
+      const response = await createPaymentRequiredResponse(request, price, {
+        error: 'Invalid payment token',
+        x402Version,
+        headers: { 'X-402-Error': 'Invalid token' },
+      });
+      return { authorized: false, response };
     }
   }
 
@@ -137,5 +249,167 @@ export async function protectWithX402(
   return {
     authorized: true,
     paymentDetails: verificationResult.details,
+    payload,
+    requirements,
+    format,
+    price,
+  };
+}
+
+/**
+ * Copy a response so its headers can be changed (fetch responses are immutable)
+ */
+function withHeaders(response: Response, headers: Record<string, string>): Response {
+  const copy = new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers),
+  });
+  for (const [key, value] of Object.entries(headers)) {
+    copy.headers.set(key, value);
+  }
+  return copy;
+}
+
+/**
+ * Wrap a route handler with x402 payment: verify and reserve the payment first,
+ * run the handler, and settle only if it returned a 2xx response
+ * The reservation serves each payment once: concurrent requests and repeats
+ * carrying an already reserved or settled payment get a 402 without running the handler.
+ * The route is priced by its config/pricing.json entry (marked `settleAfterHandler`,
+ * so the global middleware leaves it alone); unpriced methods are not protected.
+ * On any other response (or a thrown error) the authorization is voided and the
+ * response tells the client it was not charged
+ */
+export function withX402<Context>(
+  handler: (request: NextRequest, context: Context) => Response | Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const routePrice = getRoutePrice(request.nextUrl.pathname, request.method);
+    if (!routePrice) {
+      return handler(request, context);
+    }
+
+    const protection = await protectWithX402(request, routePrice);
+    if (!protection.authorized) {
+      return protection.response as Response;
+    }
+    const log = getRequestLogger(request, 'seller');
+
+    let reservation: string | undefined;
+    if (protection.payload && protection.requirements && protection.price) {
+      const reserved = await reserveX402Payment(protection.payload, protection.requirements);
+      if ('error' in reserved) {
+        return createPaymentRequiredResponse(request, protection.price, {
+          error: reserved.error,
+          x402Version: protection.requirements.x402Version,
+        });
+      }
+      reservation = reserved.reservation;
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      log.error('withX402: Handler failed', { error });
+      response = NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+    }
+
+    // Requests made with an access pass were paid for when the pass was bought
+    if (!protection.payload || !protection.requirements || !protection.price) {
+      return withHeaders(response, {
+        'X-Payment-Verified': 'true',
+        ...(protection.accessPassRemaining !== undefined
+          ? { [ACCESS_PASS_REMAINING_HEADER]: String(protection.accessPassRemaining) }
+          : {}),
+      });
+    }
+    const { payload, requirements, format, price } = protection;
+
+    // Failed responses are not paid for
+    if (response.status < 200 || response.status >= 300) {
+      const voided = await voidX402Payment(payload, log, reservation);
+      return withHeaders(response, {
+        'X-Payment-Charged': 'false',
+        'X-Payment-Response': JSON.stringify({
+          settled: false,
+          charged: false,
+          status: voided.voided ? 'voided' : 'not_settled',
+          reason: `Handler responded with ${response.status}`,
+        }),
+      });
+    }
+
+    const settlement = await settleX402Payment(payload, requirements, {
+      mode: price.settlement === 'optimistic' ? 'async' : 'sync',
+      reservation,
+      logger: log,
+    });
+    if (settlement.replayed) {
+      // Settled by an earlier request: this one was not paid for
+      return createPaymentRequiredResponse(request, price, {
+        error: 'Payment authorization was already used',
+        x402Version: requirements.x402Version,
+      });
+    }
+    if (!settlement.success) {
+      return createPaymentRequiredResponse(request, price, {
+        error: 'Payment settlement failed',
+        x402Version: requirements.x402Version,
+        body: { details: settlement.error },
+        headers: {
+          'X-402-Error': (settlement.error || 'Settlement failed').replace(/\n/g, ' ').substring(0, 200),
+        },
+      });
+    }
+
+    const headers: Record<string, string> = {
+      'X-Payment-Verified': 'true',
+      'X-Payment-Charged': 'true',
+      'X-Payment-Amount': protection.paymentDetails?.amount || price.amount,
+    };
+    if (settlement.settlementId) {
+      headers['X-Settlement-Id'] = settlement.settlementId;
+    }
+    if (settlement.transactionHash) {
+      headers['X-Settlement-Tx'] = settlement.transactionHash;
+    }
+    if (settlement.receipt) {
+      headers[RECEIPT_HEADER] = settlement.receipt;
+    }
+    if (format === 'spec') {
+      // Spec clients decode a base64 settle response (X-PAYMENT-RESPONSE, or PAYMENT-RESPONSE in v2)
+      const paymentResponse = toFacilitatorSettleResponse(
+        settlement,
+        requirements.network,
+        requirements.x402Version,
+        getPayer(JSON.parse(payload))
+      );
+      headers[requirements.x402Version === 2 ? PAYMENT_RESPONSE_HEADER_V2 : PAYMENT_RESPONSE_HEADER] = encodeHeaderValue(paymentResponse);
+    } else {
+      headers['X-Payment-Response'] = JSON.stringify({
+        transactionHash: settlement.transactionHash,
+        settled: settlement.status !== 'pending',
+        status: settlement.status || 'confirmed',
+        settlementId: settlement.settlementId,
+        receipt: settlement.receipt,
+      });
+    }
+
+    // Routes selling a pass hand it out once the payment has settled
+    if (price.pass) {
+      const { token, pass } = await createAccessPass(price.pass, {
+        network: price.network,
+        seller: getRouteSeller(request.nextUrl.pathname).id,
+        payer: protection.paymentDetails?.from,
+      });
+      headers[ACCESS_PASS_HEADER] = token;
+      if (pass.maxUses !== undefined) {
+        headers[ACCESS_PASS_REMAINING_HEADER] = String(pass.maxUses);
+      }
+    }
+
+    return withHeaders(response, headers);
   };
 }
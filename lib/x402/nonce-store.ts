@@ -0,0 +1,140 @@
+/**
+ * x402 Nonce Registry
+ * Records used (from, nonce) pairs so a signed payment authorization can only be settled once
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { env } from '@/lib/env';
+
+/**
+ * Storage backend for used payment nonces
+ */
+export interface NonceStore {
+  /**
+   * Check whether a (from, nonce) pair has already been used
+   */
+  isUsed(from: string, nonce: string): Promise<boolean>;
+
+  /**
+   * Atomically mark a (from, nonce) pair as used until `expiresAt` (unix seconds).
+   * Returns false if the pair was already used.
+   */
+  consume(from: string, nonce: string, expiresAt: number): Promise<boolean>;
+
+  /**
+   * Release a previously consumed pair (e.g. when settlement failed before broadcast)
+   */
+  release(from: string, nonce: string): Promise<void>;
+}
+
+function nonceKey(from: string, nonce: string): string {
+  return `${from.toLowerCase()}:${nonce.toLowerCase()}`;
+}
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * In-memory nonce store
+ * Entries are lost on restart and are not shared between instances
+ */
+export class InMemoryNonceStore implements NonceStore {
+  protected entries = new Map<string, number>();
+
+  async isUsed(from: string, nonce: string): Promise<boolean> {
+    this.prune();
+    return this.entries.has(nonceKey(from, nonce));
+  }
+
+  async consume(from: string, nonce: string, expiresAt: number): Promise<boolean> {
+    this.prune();
+    const key = nonceKey(from, nonce);
+    if (this.entries.has(key)) {
+      return false;
+    }
+    this.entries.set(key, expiresAt);
+    return true;
+  }
+
+  async release(from: string, nonce: string): Promise<void> {
+    this.entries.delete(nonceKey(from, nonce));
+  }
+
+  /**
+   * Drop entries whose authorization window has passed
+   */
+  protected prune(): void {
+    const now = nowSeconds();
+    for (const [key, expiresAt] of this.entries) {
+      if (expiresAt < now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed nonce store
+ * Persists used nonces as JSON so they survive restarts of a single instance
+ */
+export class FileNonceStore extends InMemoryNonceStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  async consume(from: string, nonce: string, expiresAt: number): Promise<boolean> {
+    const consumed = await super.consume(from, nonce, expiresAt);
+    if (consumed) {
+      this.persist();
+    }
+    return consumed;
+  }
+
+  async release(from: string, nonce: string): Promise<void> {
+    await super.release(from, nonce);
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, number>;
+    this.entries = new Map(Object.entries(data));
+    this.prune();
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.entries)));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+let nonceStore: NonceStore | null = null;
+
+/**
+ * Get the configured nonce store (NONCE_STORE=memory|file)
+ */
+export function getNonceStore(): NonceStore {
+  if (!nonceStore) {
+    nonceStore = env.NONCE_STORE === 'file'
+      ? new FileNonceStore(env.NONCE_STORE_PATH)
+      : new InMemoryNonceStore();
+  }
+  return nonceStore;
+}
+
+/**
+ * Replace the nonce store (useful for testing or custom shared backends)
+ */
+export function setNonceStore(store: NonceStore): void {
+  nonceStore = store;
+}
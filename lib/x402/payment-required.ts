@@ -0,0 +1,153 @@
+/**
+ * x402 Payment Required Responses
+ * Requirements and 402 responses of priced routes, shared by the global
+ * middleware.ts and by withX402 (lib/x402/middleware.ts)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { env } from '@/lib/env';
+import { getNetworkAsset, getNetworkConfig } from '@/lib/evm/networks';
+import { paymentRequiredResponses } from '@/lib/metrics';
+import type { PaymentRequirements } from '@/types/x402';
+import { ACCESS_PASS_HEADER } from './access-pass';
+import { getRequirementFee } from './fees';
+import type { PaymentOption, RoutePrice } from './pricing';
+import { PAYER_HEADER, QUOTE_HEADER } from './quote';
+import { getSellerForRoute, type Seller } from './sellers';
+import {
+  createPaymentRequired,
+  DEFAULT_X402_VERSION,
+  encodeHeaderValue,
+  isSupportedX402Version,
+  LEGACY_PAYMENT_HEADER,
+  PAYMENT_HEADER,
+  PAYMENT_REQUIRED_HEADER,
+  PAYMENT_SIGNATURE_HEADER,
+} from './protocol';
+
+/**
+ * Seller selling a route, who is paid for it (see sellers.ts)
+ */
+export function getRouteSeller(pathname: string): Seller {
+  const seller = getSellerForRoute(pathname);
+  if (!seller) {
+    throw new Error(`No seller is registered for ${pathname}`);
+  }
+  return seller;
+}
+
+/**
+ * Requirement advertised for one accepted option of a route
+ * Always built from the route's price and seller, never from client-supplied details
+ */
+export function getOptionRequirements(
+  request: NextRequest,
+  price: RoutePrice,
+  option: PaymentOption,
+  x402Version: number
+): PaymentRequirements {
+  const sellerAddress = getRouteSeller(request.nextUrl.pathname).payTo;
+  const asset = getNetworkAsset(option.network, option.asset);
+  if (!asset) {
+    throw new Error(`Asset ${option.asset} is not configured for network ${option.network}`);
+  }
+  const fee = getRequirementFee(
+    option.network,
+    asset.address,
+    sellerAddress,
+    price.scheme === 'exact' ? option.amount : undefined
+  );
+  return {
+    x402Version,
+    scheme: price.scheme,
+    network: option.network,
+    maxAmountRequired: option.amount,
+    resource: `${request.nextUrl.origin}${request.nextUrl.pathname}`,
+    description: price.description,
+    mimeType: price.mimeType,
+    payTo: sellerAddress,
+    maxTimeoutSeconds: price.maxTimeoutSeconds,
+    asset: option.asset,
+    // Tokens carry their EIP-712 domain so clients can sign without fetching it
+    // Native options carry the facilitator fee taken out of the amount ("upto" fees depend on usage)
+    extra: {
+      ...(asset.address === 'native' ? {} : { name: asset.name, version: asset.version }),
+      ...(price.quote ? { quote: price.quote } : {}),
+      ...(fee ? { fee } : {}),
+    },
+  };
+}
+
+/**
+ * Create 402 Payment Required response
+ * The body is the spec's `{ x402Version, accepts, error }`; the flat requirement
+ * fields are kept alongside it for legacy X-402-Payment clients
+ */
+export async function createPaymentRequiredResponse(
+  request: NextRequest,
+  price: RoutePrice,
+  options: {
+    error?: string;
+    x402Version?: number; // Version the client spoke, if supported
+    body?: Record<string, unknown>; // Extra fields for legacy clients
+    headers?: Record<string, string>;
+  } = {}
+): Promise<NextResponse> {
+  paymentRequiredResponses.inc({ route: price.pattern });
+
+  // The route's seller receives payments (payTo)
+  const sellerAddress = getRouteSeller(request.nextUrl.pathname).payTo;
+
+  // Use configured facilitator URL
+  const facilitatorUrl = env.FACILITATOR_URL;
+
+  // Answer in the client's version when we speak it
+  const x402Version = isSupportedX402Version(options.x402Version) ? options.x402Version : DEFAULT_X402_VERSION;
+
+  // One requirement per accepted option ('native' for native tokens); the client picks one
+  const accepts = price.accepts.map((option) => getOptionRequirements(request, price, option, x402Version));
+  const paymentRequired = createPaymentRequired(accepts, x402Version, options.error);
+
+  // Legacy clients only understand the first option
+  const [primary] = price.accepts;
+  const primaryAsset = getNetworkAsset(primary.network, primary.asset);
+  const response = {
+    ...paymentRequired,
+    maxAmountRequired: primary.amount,
+    resource: request.nextUrl.pathname,
+    description: price.description,
+    payTo: sellerAddress,
+    asset: primary.asset,
+    network: primary.network,
+    chainId: getNetworkConfig(primary.network).chainId,
+    currency: primaryAsset?.symbol,
+    decimals: primaryAsset?.decimals,
+    scheme: price.scheme,
+    facilitator: facilitatorUrl,
+    mimeType: price.mimeType,
+    maxTimeoutSeconds: price.maxTimeoutSeconds,
+    ...options.body,
+  };
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-402-Version': String(x402Version),
+    'X-402-Scheme': price.scheme,
+    'X-402-Network': primary.network,
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': request.method,
+    'Access-Control-Allow-Headers': `Content-Type, ${LEGACY_PAYMENT_HEADER}, ${PAYMENT_HEADER}, ${PAYMENT_SIGNATURE_HEADER}, ${QUOTE_HEADER}, ${PAYER_HEADER}, ${ACCESS_PASS_HEADER}`,
+    ...options.headers,
+  };
+  if (price.quote) {
+    headers[QUOTE_HEADER] = price.quote;
+  }
+  if (x402Version === 2) {
+    headers[PAYMENT_REQUIRED_HEADER] = encodeHeaderValue(paymentRequired);
+  }
+
+  return NextResponse.json(response, {
+    status: 402,
+    headers,
+  });
+}
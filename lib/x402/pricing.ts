@@ -0,0 +1,420 @@
+/**
+ * x402 Route Pricing
+ * Protected routes and their prices are declared in config/pricing.json and
+ * validated when this module loads; the middleware uses getRoutePrice for both
+ * matching and pricing
+ *
+ * Patterns are matched segment by segment:
+ * - `:name` matches one segment and captures it as a param
+ * - `*` matches any characters within one segment
+ * - `**` matches any number of segments (including none)
+ * The first route whose pattern and method match wins.
+ *
+ * Routes with a `hook` compute their amount per request (see config/pricing-hooks.ts).
+ * The 402 then carries a signed quote, and the paid retry is charged the quoted amount.
+ *
+ * Routes with a `pass` sell an access pass: the price buys a number of requests
+ * and/or a time window on every route of the pass's group (see access-pass.ts).
+ *
+ * Routes with `settleAfterHandler` are skipped by the middleware: their handler is
+ * wrapped with withX402 (see middleware.ts in this directory), which charges the
+ * same price only once the handler has responded successfully.
+ */
+
+import pricingConfig from '@/config/pricing.json';
+import { PRICING_HOOKS } from '@/config/pricing-hooks';
+import { env } from '@/lib/env';
+import { getNetworkAsset, isNetworkSupported } from '@/lib/evm/networks';
+import { DEFAULT_MAX_TIMEOUT_SECONDS } from './authorization';
+import type { AccessPassSettings } from './access-pass';
+import { createQuote, hashBody, PAYER_HEADER, verifyQuote } from './quote';
+
+/**
+ * An alternative way to pay for a route: another asset and/or network
+ */
+export interface PaymentOptionSettings {
+  network?: string; // Network id from config/networks.json (default NETWORK)
+  asset?: string; // 'native' or a token address configured for that network (default 'native')
+  amount?: string; // Price in that asset's smallest unit (required unless the route has a hook)
+}
+
+/**
+ * Price settings of a route, overridable per HTTP method
+ */
+export interface RoutePriceSettings {
+  amount?: string; // Price in the asset's smallest unit ("upto" routes: the most one request may cost)
+  asset?: string; // 'native' or a token address configured for the network (default 'native')
+  description?: string;
+  mimeType?: string; // MIME type of the paid response (default 'application/json')
+  maxTimeoutSeconds?: number; // Longest authorization window the seller accepts (default 300)
+  scheme?: 'exact' | 'upto'; // 'upto' charges at most `amount`; the route handler settles actual usage
+  settlement?: 'sync' | 'optimistic'; // 'optimistic' serves the request once the transfer is broadcast
+  settleAfterHandler?: boolean; // Charged by the route's withX402 wrapper, only for 2xx responses
+  hook?: string; // Name of a PRICING_HOOKS function computing the amount per request
+  accepts?: PaymentOptionSettings[]; // Alternatives advertised after the route's own asset
+  pass?: AccessPassSettings; // Sell an access pass instead of a single request
+}
+
+/**
+ * A route entry of config/pricing.json
+ * Without `methods`, every method except OPTIONS is charged the route's price;
+ * with `methods`, only the listed methods (or '*') are charged
+ */
+export interface RoutePricingEntry extends RoutePriceSettings {
+  pattern: string; // e.g. '/api/protected/weather', '/api/items/:id', '/api/reports/**'
+  methods?: Record<string, RoutePriceSettings>;
+}
+
+/**
+ * One accepted way to pay, as advertised in the 402's `accepts`
+ */
+export interface PaymentOption {
+  network: string;
+  asset: string;
+  amount: string;
+}
+
+/**
+ * Resolved price of a request
+ * `network`, `asset` and `amount` are those of the first option until
+ * selectPaymentOption picks the one a payment was made with
+ */
+export interface RoutePrice {
+  pattern: string;
+  params: Record<string, string>;
+  network: string;
+  amount: string;
+  asset: string;
+  accepts: PaymentOption[]; // Every accepted option, the route's own asset first
+  description: string;
+  mimeType: string;
+  maxTimeoutSeconds: number;
+  scheme: 'exact' | 'upto';
+  settlement: 'sync' | 'optimistic';
+  settleAfterHandler: boolean;
+  hook?: string;
+  quote?: string; // Signed quote token for hook-priced requests
+  pass?: AccessPassSettings & { group: string };
+}
+
+/**
+ * What a pricing hook can price a request by
+ */
+export interface PricingContext {
+  request: Request;
+  method: string;
+  pathname: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: string; // Raw request body ('' if none)
+  payer?: string; // From the X-402-Payer header; the quote is only valid for this payer
+  option: PaymentOption; // Option being priced (`amount` is its configured base amount, or '0')
+  price: RoutePrice; // Static settings of the route
+}
+
+/**
+ * Compute the amount (smallest unit of the option's asset) for a request
+ * Called once per accepted option
+ */
+export type PricingHook = (context: PricingContext) => bigint | string | Promise<bigint | string>;
+
+interface CompiledRoute {
+  regex: RegExp;
+  keys: string[];
+  prices: Map<string, Omit<RoutePrice, 'params'>>; // Keyed by upper-case method or '*'
+}
+
+const HTTP_METHODS = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', '*'];
+
+const DEFAULT_DESCRIPTION = 'Access to this resource requires payment';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a route pattern into a regular expression and its param names
+ * Also used for the route prefixes of registered sellers (see sellers.ts)
+ */
+export function compilePattern(pattern: string): { regex: RegExp; keys: string[] } {
+  const keys: string[] = [];
+  const source = pattern.split('/').filter(Boolean).map((segment) => {
+    if (segment === '**') {
+      return '(?:/[^/]+)*';
+    }
+    if (segment.startsWith(':')) {
+      keys.push(segment.slice(1));
+      return '/([^/]+)';
+    }
+    return '/' + segment.split('*').map(escapeRegExp).join('[^/]*');
+  }).join('');
+  return { regex: new RegExp(`^${source}/?$`), keys };
+}
+
+/**
+ * Resolve and validate the price of one method of a route
+ */
+function resolvePrice(entry: RoutePricingEntry, method: string, settings: RoutePriceSettings): Omit<RoutePrice, 'params'> {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid pricing for ${method} ${entry.pattern}: ${message}`);
+  };
+
+  const hook = settings.hook ?? entry.hook;
+  const defaultAmount = hook ? '0' : '';
+  const primary: PaymentOption = {
+    network: env.NETWORK,
+    asset: settings.asset ?? entry.asset ?? 'native',
+    amount: settings.amount ?? entry.amount ?? defaultAmount,
+  };
+  const alternatives = (settings.accepts ?? entry.accepts ?? []).map((option) => ({
+    network: option.network ?? env.NETWORK,
+    asset: option.asset ?? 'native',
+    amount: option.amount ?? defaultAmount,
+  }));
+
+  const pass = settings.pass ?? entry.pass;
+  const price = {
+    pattern: entry.pattern,
+    ...primary,
+    accepts: [primary, ...alternatives],
+    description: settings.description ?? entry.description ?? DEFAULT_DESCRIPTION,
+    mimeType: settings.mimeType ?? entry.mimeType ?? 'application/json',
+    maxTimeoutSeconds: settings.maxTimeoutSeconds ?? entry.maxTimeoutSeconds ?? DEFAULT_MAX_TIMEOUT_SECONDS,
+    scheme: settings.scheme ?? entry.scheme ?? 'exact',
+    settlement: settings.settlement ?? entry.settlement ?? 'sync',
+    settleAfterHandler: settings.settleAfterHandler ?? entry.settleAfterHandler ?? false,
+    hook,
+    pass: pass ? { ...pass, group: pass.group ?? entry.pattern } : undefined,
+  };
+
+  if (price.scheme !== 'exact' && price.scheme !== 'upto') {
+    fail(`unsupported scheme "${price.scheme}"`);
+  }
+  if (price.settlement !== 'sync' && price.settlement !== 'optimistic') {
+    fail(`unsupported settlement "${price.settlement}"`);
+  }
+  if (typeof price.settleAfterHandler !== 'boolean') {
+    fail('settleAfterHandler must be true or false');
+  }
+  // Metered handlers settle their own usage (see metered.ts)
+  if (price.settleAfterHandler && price.scheme === 'upto') {
+    fail('settleAfterHandler is not supported for "upto" routes');
+  }
+  if (!Number.isInteger(price.maxTimeoutSeconds) || price.maxTimeoutSeconds <= 0) {
+    fail('maxTimeoutSeconds must be a positive integer');
+  }
+  if (price.hook && !PRICING_HOOKS[price.hook]) {
+    fail(`unknown pricing hook "${price.hook}"`);
+  }
+  if (price.pass) {
+    const { requests, durationSeconds } = price.pass;
+    if (requests === undefined && durationSeconds === undefined) {
+      fail('pass needs requests, durationSeconds or both');
+    }
+    if (requests !== undefined && (!Number.isInteger(requests) || requests < 1)) {
+      fail('pass requests must be a positive integer');
+    }
+    if (durationSeconds !== undefined && (!Number.isInteger(durationSeconds) || durationSeconds <= 0)) {
+      fail('pass durationSeconds must be a positive integer');
+    }
+    // Metered requests are each settled for their own usage
+    if (price.scheme === 'upto') {
+      fail('passes are not supported for "upto" routes');
+    }
+  }
+  for (const option of price.accepts) {
+    if (!/^\d+$/.test(option.amount)) {
+      fail(`amount must be an integer string, got "${option.amount}"`);
+    }
+    if (!isNetworkSupported(option.network)) {
+      fail(`network ${option.network} is not configured`);
+    }
+    if (!getNetworkAsset(option.network, option.asset)) {
+      fail(`asset ${option.asset} is not configured for network ${option.network}`);
+    }
+    // EIP-3009 authorizations can only transfer the exact signed value
+    if (price.scheme === 'upto' && option.asset !== 'native') {
+      fail('"upto" is only supported for native payments');
+    }
+  }
+  if (new Set(price.accepts.map((option) => `${option.network}:${option.asset.toLowerCase()}`)).size !== price.accepts.length) {
+    fail('the same network and asset is accepted twice');
+  }
+
+  return price as Omit<RoutePrice, 'params'>;
+}
+
+/**
+ * Compile and validate a route entry
+ */
+function compileRoute(entry: RoutePricingEntry): CompiledRoute {
+  if (typeof entry.pattern !== 'string' || !entry.pattern.startsWith('/')) {
+    throw new Error(`Invalid pricing pattern ${JSON.stringify(entry.pattern)}: must start with "/"`);
+  }
+
+  const prices = new Map<string, Omit<RoutePrice, 'params'>>();
+  if (entry.methods) {
+    for (const [method, settings] of Object.entries(entry.methods)) {
+      const key = method.toUpperCase();
+      if (!HTTP_METHODS.includes(key)) {
+        throw new Error(`Invalid pricing for ${entry.pattern}: unsupported method "${method}"`);
+      }
+      prices.set(key, resolvePrice(entry, key, settings));
+    }
+  } else {
+    prices.set('*', resolvePrice(entry, '*', {}));
+  }
+
+  return { ...compilePattern(entry.pattern), prices };
+}
+
+// JSON is untyped; every entry is validated while compiling
+const ROUTES: CompiledRoute[] = (pricingConfig.routes as unknown as RoutePricingEntry[]).map(compileRoute);
+
+/**
+ * Find the price of a request
+ * Returns null if the route is not protected or the method is free (OPTIONS always is)
+ */
+export function getRoutePrice(pathname: string, method: string): RoutePrice | null {
+  const key = method.toUpperCase();
+  if (key === 'OPTIONS') {
+    return null;
+  }
+
+  for (const route of ROUTES) {
+    const match = route.regex.exec(pathname);
+    if (!match) {
+      continue;
+    }
+    const price = route.prices.get(key) || route.prices.get('*');
+    if (!price) {
+      continue;
+    }
+    const params: Record<string, string> = {};
+    route.keys.forEach((name, index) => {
+      try {
+        params[name] = decodeURIComponent(match[index + 1]);
+      } catch {
+        params[name] = match[index + 1];
+      }
+    });
+    return { ...price, params };
+  }
+
+  return null;
+}
+
+/**
+ * Request fields a quote is bound to
+ */
+async function getQuoteBinding(request: Request): Promise<{ method: string; resource: string; body: string; bodyHash: string }> {
+  const url = new URL(request.url);
+  const body = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.clone().text();
+  return {
+    method: request.method.toUpperCase(),
+    resource: `${url.pathname}${url.search}`,
+    body,
+    bodyHash: await hashBody(body),
+  };
+}
+
+/**
+ * Price a request with the route's hook and attach a signed quote
+ * Routes without a hook are returned unchanged
+ */
+export async function quoteRoutePrice(request: Request, price: RoutePrice): Promise<RoutePrice> {
+  if (!price.hook) {
+    return price;
+  }
+
+  const binding = await getQuoteBinding(request);
+  const url = new URL(request.url);
+  const payer = request.headers.get(PAYER_HEADER) || undefined;
+  const hook = PRICING_HOOKS[price.hook];
+  const accepts: PaymentOption[] = [];
+  for (const option of price.accepts) {
+    const amount = BigInt(await hook({
+      request,
+      method: binding.method,
+      pathname: url.pathname,
+      params: price.params,
+      query: url.searchParams,
+      body: binding.body,
+      payer,
+      option,
+      price,
+    }));
+    if (amount < BigInt(0)) {
+      throw new Error(`Pricing hook "${price.hook}" returned a negative amount`);
+    }
+    accepts.push({ ...option, amount: amount.toString() });
+  }
+
+  const quote = await createQuote({
+    accepts,
+    method: binding.method,
+    resource: binding.resource,
+    bodyHash: binding.bodyHash,
+    payer,
+    expiresAt: Math.floor(Date.now() / 1000) + price.maxTimeoutSeconds,
+  });
+
+  return { ...price, amount: accepts[0].amount, accepts, quote };
+}
+
+/**
+ * Price of a paid retry from the quote it presents
+ * Routes without a hook are returned unchanged; `payer` is set when the quote is bound to one
+ */
+export async function getQuotedRoutePrice(
+  request: Request,
+  price: RoutePrice,
+  quoteToken: string | null | undefined
+): Promise<{ price: RoutePrice; payer?: string } | { error: string }> {
+  if (!price.hook) {
+    return { price };
+  }
+  if (!quoteToken) {
+    return { error: 'Missing price quote' };
+  }
+
+  const result = await verifyQuote(quoteToken, await getQuoteBinding(request));
+  if ('error' in result) {
+    return result;
+  }
+  const quoted = result.quote.accepts;
+  const sameOptions = quoted.length === price.accepts.length && quoted.every((option, index) =>
+    option.network === price.accepts[index].network && sameAsset(option.asset, price.accepts[index].asset)
+  );
+  if (!sameOptions) {
+    return { error: 'Price quote was issued for different payment options' };
+  }
+
+  return {
+    price: { ...price, amount: quoted[0].amount, accepts: quoted, quote: quoteToken },
+    payer: result.quote.payer,
+  };
+}
+
+function sameAsset(a: string, b: string): boolean {
+  const normalize = (asset: string) =>
+    asset === '0x0000000000000000000000000000000000000000' ? 'native' : asset.toLowerCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Narrow a price to the accepted option a payment was made with
+ * The payment must name one of the advertised networks; its asset is matched
+ * when the payment names one, otherwise the first option on that network is used
+ * Returns null if the payment matches no option
+ */
+export function selectPaymentOption(
+  price: RoutePrice,
+  payment: { network?: string; asset?: string }
+): RoutePrice | null {
+  const network = payment.network || price.network;
+  const option = price.accepts.find((candidate) =>
+    candidate.network === network && (!payment.asset || sameAsset(candidate.asset, payment.asset))
+  );
+  return option ? { ...price, ...option } : null;
+}
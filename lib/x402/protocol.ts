@@ -0,0 +1,285 @@
+/**
+ * x402 Protocol Versions and Wire Format
+ * Converts between the spec's v1/v2 messages (X-PAYMENT, `accepts`, CAIP-2 networks)
+ * and the requirements and payloads used internally by verify and settle
+ */
+
+import type {
+  FacilitatorRequest,
+  FacilitatorSettleResponse,
+  FacilitatorVerifyResponse,
+  PaymentPayload,
+  PaymentRequiredResponse,
+  PaymentRequirements,
+  PaymentRequirementsV2,
+  SettlementResult,
+  VerificationResult,
+} from '@/types/x402';
+import { getNetworkByChainId, getNetworkConfig } from '@/lib/evm/networks';
+import { DEFAULT_MAX_TIMEOUT_SECONDS } from './authorization';
+
+// Address standing for the network's native currency
+const NATIVE_ASSET_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * x402 protocol versions this facilitator speaks
+ */
+export const SUPPORTED_X402_VERSIONS = [1, 2];
+
+/**
+ * Version used when the client has not told us which one it speaks
+ */
+export const DEFAULT_X402_VERSION = 1;
+
+/**
+ * Request headers carrying a payment: spec v1, spec v2 and the legacy format
+ */
+export const PAYMENT_HEADER = 'X-PAYMENT';
+export const PAYMENT_SIGNATURE_HEADER = 'PAYMENT-SIGNATURE';
+export const LEGACY_PAYMENT_HEADER = 'X-402-Payment';
+export const LEGACY_PAYMENT_DETAILS_HEADER = 'X-402-Payment-Details';
+
+/**
+ * Response headers carrying payment requirements (v2) and the settlement result
+ */
+export const PAYMENT_REQUIRED_HEADER = 'PAYMENT-REQUIRED';
+export const PAYMENT_RESPONSE_HEADER = 'X-PAYMENT-RESPONSE';
+export const PAYMENT_RESPONSE_HEADER_V2 = 'PAYMENT-RESPONSE';
+
+export function isSupportedX402Version(version: unknown): version is number {
+  return typeof version === 'number' && SUPPORTED_X402_VERSIONS.includes(version);
+}
+
+/**
+ * Network identifier as a CAIP-2 chain id (v2), e.g. "eip155:420420422"
+ */
+export function toCaip2Network(network: string): string {
+  if (network.startsWith('eip155:')) {
+    return network;
+  }
+  return `eip155:${getNetworkConfig(network).chainId}`;
+}
+
+/**
+ * Network name used internally for a CAIP-2 chain id; other names are returned unchanged
+ */
+export function fromCaip2Network(network: string): string {
+  if (!network.startsWith('eip155:')) {
+    return network;
+  }
+  return getNetworkByChainId(Number(network.slice('eip155:'.length))) || network;
+}
+
+/**
+ * Convert v1 or v2 requirements into the internal (v1-shaped) requirements
+ */
+export function normalizeRequirements(
+  requirements: PaymentRequirements | PaymentRequirementsV2,
+  x402Version?: number
+): PaymentRequirements {
+  const raw = requirements as PaymentRequirements & Partial<PaymentRequirementsV2>;
+  return {
+    ...raw,
+    x402Version: x402Version ?? raw.x402Version,
+    network: raw.network ? fromCaip2Network(raw.network) : raw.network,
+    maxAmountRequired: raw.maxAmountRequired ?? raw.amount,
+  };
+}
+
+/**
+ * Build an `accepts` entry for the given protocol version
+ */
+export function toAcceptsEntry(
+  requirements: PaymentRequirements,
+  x402Version: number
+): PaymentRequirements | PaymentRequirementsV2 {
+  if (x402Version === 2) {
+    return {
+      scheme: requirements.scheme,
+      network: toCaip2Network(requirements.network),
+      amount: requirements.maxAmountRequired || '0',
+      asset: requirements.asset || 'native',
+      payTo: requirements.payTo || '',
+      maxTimeoutSeconds: requirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS,
+      extra: requirements.extra || {},
+    };
+  }
+
+  // v1 entries carry everything except the version, which lives on the response
+  const entry: Partial<PaymentRequirements> = {
+    ...requirements,
+    maxTimeoutSeconds: requirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS,
+    extra: requirements.extra || {},
+  };
+  delete entry.x402Version;
+  return entry as PaymentRequirements;
+}
+
+/**
+ * Build a spec 402 response body (`{ x402Version, accepts, error }`)
+ */
+export function createPaymentRequired(
+  requirements: PaymentRequirements[],
+  x402Version: number = DEFAULT_X402_VERSION,
+  error?: string
+): PaymentRequiredResponse {
+  const response: PaymentRequiredResponse = {
+    x402Version,
+    error,
+    accepts: requirements.map((entry) => toAcceptsEntry(entry, x402Version)),
+  };
+
+  if (x402Version === 2 && requirements[0]?.resource) {
+    response.resource = {
+      url: requirements[0].resource,
+      description: requirements[0].description,
+      mimeType: requirements[0].mimeType,
+    };
+  }
+
+  return response;
+}
+
+/**
+ * Base64-encode a JSON value for an x402 header
+ */
+export function encodeHeaderValue(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), 'utf-8').toString('base64');
+}
+
+/**
+ * Decode an X-PAYMENT / PAYMENT-SIGNATURE header (base64 JSON, or plain JSON)
+ * Returns null if the header is not a spec payment payload
+ */
+export function decodePaymentHeader(header: string): PaymentPayload | null {
+  try {
+    const decoded = header.trim().startsWith('{') ? header : Buffer.from(header, 'base64').toString('utf-8');
+    const payment = JSON.parse(decoded);
+    if (!payment || typeof payment !== 'object' || !payment.payload || typeof payment.x402Version !== 'number') {
+      return null;
+    }
+    return payment as PaymentPayload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Requirements the client agreed to, as carried in the payment itself
+ * (v2 copies the chosen `accepts` entry; v1 only names the scheme and network)
+ */
+export function getPaymentRequirements(payment: PaymentPayload): Partial<PaymentRequirements> {
+  if (payment.accepted) {
+    return normalizeRequirements(payment.accepted, payment.x402Version);
+  }
+  return {
+    x402Version: payment.x402Version,
+    scheme: payment.scheme,
+    network: payment.network ? fromCaip2Network(payment.network) : undefined,
+  };
+}
+
+/**
+ * Internal payload and requirements of a spec facilitator request
+ * Returns null if the request carries no decodable payment
+ */
+export function fromFacilitatorRequest(body: FacilitatorRequest): {
+  payment: PaymentPayload;
+  payload: string;
+  requirements: PaymentRequirements;
+} | null {
+  const payment = body.paymentPayload || (body.paymentHeader ? decodePaymentHeader(body.paymentHeader) : null);
+  if (!payment || !body.paymentRequirements) {
+    return null;
+  }
+  return {
+    payment,
+    payload: encodeHeaderValue(payment),
+    requirements: normalizeRequirements(body.paymentRequirements, body.x402Version ?? payment.x402Version),
+  };
+}
+
+/**
+ * Map an internal verification error to the closest spec error reason
+ */
+export function toErrorReason(error: string | undefined, code: string | undefined): string {
+  const message = (error || '').toLowerCase();
+  if (code === 'NONCE_ALREADY_USED') return 'invalid_transaction_state';
+  if (message.includes('x402 version')) return 'invalid_x402_version';
+  if (message.includes('scheme')) return 'unsupported_scheme';
+  if (message.includes('network')) return 'invalid_network';
+  if (message.includes('expired')) return 'payment_expired';
+  if (message.includes('not yet valid')) return 'invalid_exact_evm_payload_authorization_valid_after';
+  if (message.includes('insufficient')) return 'insufficient_funds';
+  if (message.includes('payto mismatch')) return 'invalid_exact_evm_payload_recipient_mismatch';
+  if (message.includes('signature')) return 'invalid_exact_evm_payload_signature';
+  if (message.includes('payload') || message.includes('authorization')) return 'invalid_payload';
+  return 'invalid_payment';
+}
+
+/**
+ * Convert an internal verification result into the spec verify response
+ */
+export function toFacilitatorVerifyResponse(
+  result: VerificationResult,
+  payer?: string
+): FacilitatorVerifyResponse {
+  if (result.valid) {
+    return {
+      isValid: true,
+      payer: result.details?.from || payer,
+    };
+  }
+  return {
+    isValid: false,
+    invalidReason: toErrorReason(result.error, result.code),
+    payer,
+  };
+}
+
+/**
+ * Convert an internal settlement result into the spec settle response
+ */
+export function toFacilitatorSettleResponse(
+  result: SettlementResult,
+  network: string,
+  x402Version: number = DEFAULT_X402_VERSION,
+  payer?: string
+): FacilitatorSettleResponse {
+  return {
+    success: result.success,
+    errorReason: result.success ? undefined : result.error?.includes('Insufficient') ? 'insufficient_funds' : 'unexpected_settle_error',
+    transaction: result.transactionHash || '',
+    network: x402Version === 2 ? toCaip2Network(network) : network,
+    payer,
+    receipt: result.receipt,
+  };
+}
+
+/**
+ * Asset an authorization pays in: the zero address for native payments, else the token
+ * Spec EIP-3009 authorizations (x402-fetch, x402-axios) carry no asset, so it is the
+ * advertised one; null when the authorization declares another asset than required
+ */
+export function getAuthorizationAsset(
+  authorization: { asset?: unknown },
+  requirements: PaymentRequirements
+): string | null {
+  const toAddress = (asset: string) => (asset === 'native' ? NATIVE_ASSET_ADDRESS : asset);
+  const required = toAddress(requirements.asset || 'native');
+  if (authorization.asset === undefined || authorization.asset === null) {
+    return required;
+  }
+  if (typeof authorization.asset !== 'string' || toAddress(authorization.asset).toLowerCase() !== required.toLowerCase()) {
+    return null;
+  }
+  return required;
+}
+
+/**
+ * Payer address of a spec payment payload, if present
+ */
+export function getPayer(payment: PaymentPayload | null): string | undefined {
+  const from = payment?.payload?.authorization?.from;
+  return typeof from === 'string' ? from : undefined;
+}
@@ -0,0 +1,90 @@
+/**
+ * x402 Price Quotes
+ * A dynamically priced 402 carries a signed quote; the paid retry must present it,
+ * so the amount enforced is the amount that was quoted for that request
+ */
+
+import { ethers } from 'ethers';
+import { readToken, signToken, utf8 } from './signed-token';
+
+/**
+ * Header carrying the quote on the 402 and on the paid retry
+ * (it is also put in the requirements' `extra.quote`)
+ */
+export const QUOTE_HEADER = 'X-402-Quote';
+
+/**
+ * Optional request header naming the payer, so prices can depend on who pays
+ * A quote made for a payer is only honoured for payments from that address
+ */
+export const PAYER_HEADER = 'X-402-Payer';
+
+/**
+ * Signed price of one request
+ */
+export interface PriceQuote {
+  id: string;
+  accepts: Array<{ network: string; asset: string; amount: string }>; // Quoted amount per accepted option
+  method: string;
+  resource: string; // Path and query string of the quoted request
+  bodyHash: string; // SHA-256 of the request body
+  payer?: string; // Lower-cased payer address the quote was made for
+  expiresAt: number; // Unix seconds
+}
+
+/**
+ * What a quote is bound to
+ */
+export interface QuoteBinding {
+  method: string;
+  resource: string;
+  bodyHash: string;
+}
+
+/**
+ * SHA-256 of a request body as hex
+ */
+export async function hashBody(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', utf8(body));
+  return ethers.hexlify(new Uint8Array(digest));
+}
+
+/**
+ * Create a signed quote token (`<base64url payload>.<base64url hmac>`)
+ */
+export async function createQuote(quote: Omit<PriceQuote, 'id'>): Promise<string> {
+  const payload: PriceQuote = {
+    id: ethers.hexlify(ethers.randomBytes(16)),
+    ...quote,
+    payer: quote.payer?.toLowerCase(),
+  };
+  return signToken('quote', payload);
+}
+
+/**
+ * Check a quote token's signature, expiry and binding to the request
+ * Returns the quote, or an error describing why it cannot be honoured
+ */
+export async function verifyQuote(
+  token: string,
+  binding: QuoteBinding
+): Promise<{ quote: PriceQuote } | { error: string }> {
+  const result = await readToken<PriceQuote>('quote', token);
+  if ('error' in result) {
+    return { error: result.error === 'signature' ? 'Invalid price quote signature' : 'Malformed price quote' };
+  }
+  const quote = result.payload;
+
+  if (quote.expiresAt < Math.floor(Date.now() / 1000)) {
+    return { error: 'Price quote expired' };
+  }
+  if (
+    quote.method !== binding.method.toUpperCase() ||
+    quote.resource !== binding.resource ||
+    quote.bodyHash !== binding.bodyHash
+  ) {
+    return { error: 'Price quote was issued for a different request' };
+  }
+
+  return { quote };
+}
@@ -0,0 +1,166 @@
+/**
+ * x402 Rate Limit Buckets
+ * Token buckets for rate limiting: each key holds up to `capacity` tokens, refilled
+ * continuously at `refillPerSecond`, and every request takes one
+ *
+ * Used from the middleware as well as route handlers, so backends must not need
+ * Node-only APIs (the Redis store talks to a Redis REST endpoint with fetch).
+ */
+
+import { env } from '@/lib/env';
+
+/**
+ * Outcome of taking a token
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number; // Whole tokens left
+  retryAfterSeconds: number; // Until the next token, when not allowed
+}
+
+/**
+ * Storage backend for rate limit buckets
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically take one token from a key's bucket
+   */
+  take(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number; // Unix milliseconds
+  capacity: number;
+  refillPerSecond: number;
+}
+
+/**
+ * Buckets above which full buckets are dropped
+ */
+const PRUNE_THRESHOLD = 10000;
+
+function toResult(allowed: boolean, tokens: number, refillPerSecond: number): RateLimitResult {
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / refillPerSecond)),
+  };
+}
+
+/**
+ * In-memory rate limit store
+ * Buckets are per instance; use a shared store when running several
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  async take(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    if (this.buckets.size > PRUNE_THRESHOLD) {
+      this.prune(now);
+    }
+
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now, capacity, refillPerSecond };
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+    this.buckets.set(key, bucket);
+    return toResult(allowed, bucket.tokens, refillPerSecond);
+  }
+
+  /**
+   * Drop buckets that have refilled completely (they are the same as new ones)
+   */
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * bucket.refillPerSecond >= bucket.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Refill, take and store a bucket in one step (KEYS[1]; ARGV: capacity, refill per ms, now in ms)
+ */
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local rate = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+local tokens = tonumber(bucket[1]) or capacity
+local updatedAt = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * rate)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / rate))
+return { allowed, tostring(tokens) }
+`;
+
+/**
+ * Redis rate limit store, shared by every instance
+ * Talks to a Redis REST endpoint (e.g. Upstash) that accepts commands as JSON arrays
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly url: string,
+    private readonly token?: string,
+    private readonly prefix: string = 'x402:rate-limit:'
+  ) {}
+
+  async take(key: string, capacity: number, refillPerSecond: number): Promise<RateLimitResult> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify([
+        'EVAL',
+        TAKE_SCRIPT,
+        '1',
+        `${this.prefix}${key}`,
+        String(capacity),
+        String(refillPerSecond / 1000),
+        String(Date.now()),
+      ]),
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !Array.isArray(data.result)) {
+      throw new Error(data.error || `Redis request failed: ${response.statusText}`);
+    }
+
+    const [allowed, tokens] = data.result;
+    return toResult(Number(allowed) === 1, Number(tokens), refillPerSecond);
+  }
+}
+
+let rateLimitStore: RateLimitStore | null = null;
+
+/**
+ * Get the configured rate limit store (RATE_LIMIT_STORE=memory|redis)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = env.RATE_LIMIT_STORE === 'redis'
+      ? new RedisRateLimitStore(env.RATE_LIMIT_REDIS_URL as string, env.RATE_LIMIT_REDIS_TOKEN)
+      : new InMemoryRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+/**
+ * Replace the rate limit store (useful for testing or custom shared backends)
+ */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
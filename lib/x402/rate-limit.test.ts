@@ -0,0 +1,86 @@
+/**
+ * Rate limit tests
+ * Client IPs come from the proxy headers only behind trusted proxies (none by
+ * default); buckets live in an in-memory store and follow config/rate-limits.json
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { env } from '@/lib/env';
+import { InMemoryRateLimitStore, setRateLimitStore } from './rate-limit-store';
+import { enforceRateLimit, getClientIp, TOTAL_RATE_LIMIT_KEY, UNKNOWN_CLIENT_IP } from './rate-limit';
+
+const DEMO_URL = 'http://localhost:3000/api/demo/create-payment';
+
+function request(headers: Record<string, string> = {}, url: string = DEMO_URL): Request {
+  return new Request(url, { method: 'POST', headers });
+}
+
+async function send(count: number, headers: () => Record<string, string>): Promise<number> {
+  let limited = 0;
+  for (let i = 0; i < count; i++) {
+    const req = request(headers());
+    if (await enforceRateLimit(req, { ip: getClientIp(req), total: TOTAL_RATE_LIMIT_KEY })) {
+      limited++;
+    }
+  }
+  return limited;
+}
+
+beforeEach(() => {
+  setRateLimitStore(new InMemoryRateLimitStore());
+});
+
+describe('without a trusted proxy', () => {
+  it('ignores the proxy headers, which the client writes', () => {
+    const req = request({ 'x-forwarded-for': '203.0.113.7', 'x-real-ip': '203.0.113.8' });
+
+    expect(getClientIp(req)).toBe(UNKNOWN_CLIENT_IP);
+  });
+
+  it('limits a client rotating fake X-Forwarded-For addresses', async () => {
+    let spoofed = 0;
+    const limited = await send(11, () => ({ 'x-forwarded-for': `10.0.0.${spoofed++}` }));
+
+    expect(limited).toBe(1);
+  });
+});
+
+describe('behind one trusted proxy', () => {
+  beforeEach(() => {
+    env.TRUSTED_PROXY_COUNT = 1;
+  });
+
+  afterEach(() => {
+    env.TRUSTED_PROXY_COUNT = 0;
+  });
+
+  it('takes the entry appended by the trusted proxy, not the client\'s', () => {
+    const req = request({ 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 203.0.113.7' });
+
+    expect(getClientIp(req)).toBe('203.0.113.7');
+  });
+
+  it('falls back to X-Real-IP', () => {
+    expect(getClientIp(request({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+  });
+
+  it('puts requests without proxy headers in the shared unknown bucket', async () => {
+    expect(getClientIp(request())).toBe(UNKNOWN_CLIENT_IP);
+
+    expect(await send(11, () => ({}))).toBe(1);
+  });
+
+  it('limits a client that spoofs X-Forwarded-For', async () => {
+    let spoofed = 0;
+    const limited = await send(11, () => ({ 'x-forwarded-for': `10.0.0.${spoofed++}, 203.0.113.7` }));
+
+    expect(limited).toBe(1);
+  });
+
+  it('caps the demo route across clients', async () => {
+    let client = 0;
+    const limited = await send(61, () => ({ 'x-forwarded-for': `203.0.113.${client++}` }));
+
+    expect(limited).toBe(1);
+  });
+});
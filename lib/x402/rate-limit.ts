@@ -0,0 +1,197 @@
+/**
+ * x402 Rate Limits
+ * Per-route limits are declared in config/rate-limits.json and validated when this
+ * module loads. A route may limit requests per client IP (`ip`), per seller API
+ * key (`apiKey`), per paying address (`payer`) and all together (`total`); each
+ * limit is a token bucket allowing `limit` requests per `windowSeconds`, with
+ * bursts of up to `burst` (default: `limit`). The first route whose pattern matches applies.
+ *
+ * Buckets live in the rate limit store (see rate-limit-store.ts). If the store
+ * fails, requests are let through rather than taking the service down.
+ */
+
+import { NextResponse } from 'next/server';
+import rateLimitsConfig from '@/config/rate-limits.json';
+import type { ErrorResponse } from '@/types/x402';
+import { compilePattern } from './pricing';
+import { getRateLimitStore } from './rate-limit-store';
+import { env } from '@/lib/env';
+import { logger } from '@/lib/logger';
+
+/**
+ * A limit of config/rate-limits.json
+ */
+export interface RateLimitSettings {
+  limit: number; // Requests per window
+  windowSeconds: number;
+  burst?: number; // Requests allowed at once (default: limit)
+}
+
+/**
+ * Route entry of config/rate-limits.json
+ */
+export interface RateLimitRouteEntry {
+  pattern: string; // Path pattern, as in config/pricing.json
+  ip?: RateLimitSettings;
+  apiKey?: RateLimitSettings;
+  payer?: RateLimitSettings;
+  total?: RateLimitSettings; // Every request to the route, whoever sends it
+}
+
+/**
+ * What a request is limited by
+ */
+export type RateLimitKind = 'ip' | 'apiKey' | 'payer' | 'total';
+
+/**
+ * Identities of a request's client, and the route-wide `total` key; limits apply to the ones given
+ */
+export type RateLimitKeys = Partial<Record<RateLimitKind, string | null | undefined>>;
+
+interface Bucket {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+interface RateLimitRoute {
+  pattern: string;
+  regex: RegExp;
+  buckets: Partial<Record<RateLimitKind, Bucket>>;
+}
+
+// Where payloads carry the payer (spec payloads nest the authorization under `payload`)
+type PayloadPayer = { authorization?: { from?: unknown }; payload?: { authorization?: { from?: unknown } } } | null;
+
+const KINDS: RateLimitKind[] = ['ip', 'apiKey', 'payer', 'total'];
+
+/**
+ * Resolve and validate one route entry
+ */
+function compileRoute(entry: RateLimitRouteEntry): RateLimitRoute {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid rate limit for ${entry.pattern}: ${message}`);
+  };
+
+  if (typeof entry.pattern !== 'string' || !entry.pattern.startsWith('/')) {
+    fail('pattern must start with "/"');
+  }
+
+  const buckets: RateLimitRoute['buckets'] = {};
+  for (const kind of KINDS) {
+    const settings = entry[kind];
+    if (!settings) {
+      continue;
+    }
+    const burst = settings.burst ?? settings.limit;
+    if (!Number.isInteger(settings.limit) || settings.limit < 1) {
+      fail(`${kind}.limit must be a positive integer`);
+    }
+    if (!Number.isInteger(settings.windowSeconds) || settings.windowSeconds < 1) {
+      fail(`${kind}.windowSeconds must be a positive integer`);
+    }
+    if (!Number.isInteger(burst) || burst < 1) {
+      fail(`${kind}.burst must be a positive integer`);
+    }
+    buckets[kind] = { capacity: burst, refillPerSecond: settings.limit / settings.windowSeconds };
+  }
+
+  return { pattern: entry.pattern, regex: compilePattern(entry.pattern).regex, buckets };
+}
+
+// JSON is untyped; every entry is validated while compiling
+const ROUTES = (rateLimitsConfig.routes as unknown as RateLimitRouteEntry[]).map(compileRoute);
+
+function getRoute(pathname: string): RateLimitRoute | null {
+  return ROUTES.find((route) => route.regex.test(pathname)) || null;
+}
+
+/**
+ * Client IP used when the proxy headers do not name one; such clients share one bucket
+ */
+export const UNKNOWN_CLIENT_IP = 'unknown';
+
+/**
+ * Key of the `total` bucket, shared by every request to a route
+ */
+export const TOTAL_RATE_LIMIT_KEY = 'all';
+
+/**
+ * Client IP of a request, from the proxy headers
+ * Clients can send any X-Forwarded-For; each trusted proxy appends the address it
+ * received the request from, so the client is the entry the outermost trusted
+ * proxy appended: TRUSTED_PROXY_COUNT entries from the right
+ */
+export function getClientIp(request: Request): string {
+  if (env.TRUSTED_PROXY_COUNT === 0) {
+    return UNKNOWN_CLIENT_IP;
+  }
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) {
+    const hops = forwarded.split(',').map((hop) => hop.trim());
+    return hops[Math.max(hops.length - env.TRUSTED_PROXY_COUNT, 0)] || UNKNOWN_CLIENT_IP;
+  }
+  return request.headers.get('x-real-ip')?.trim() || UNKNOWN_CLIENT_IP;
+}
+
+/**
+ * Paying address of a payment payload (encoded as base64 or JSON, or decoded), if it names one
+ */
+export function getPayloadPayer(payload: unknown): string | null {
+  try {
+    const paymentData: PayloadPayer = typeof payload !== 'string'
+      ? payload as PayloadPayer
+      : JSON.parse(payload.startsWith('{') ? payload : Buffer.from(payload, 'base64').toString('utf-8'));
+    const from = (paymentData?.payload?.authorization || paymentData?.authorization)?.from;
+    return typeof from === 'string' ? from.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take a token from each of a request's buckets
+ * Returns a 429 response if a limit is exceeded, or null if the request may proceed
+ */
+export async function enforceRateLimit(request: Request, keys: RateLimitKeys): Promise<NextResponse | null> {
+  const route = getRoute(new URL(request.url).pathname);
+  if (!route) {
+    return null;
+  }
+
+  for (const kind of KINDS) {
+    const bucket = route.buckets[kind];
+    const value = keys[kind];
+    if (!bucket || !value) {
+      continue;
+    }
+
+    let result;
+    try {
+      result = await getRateLimitStore().take(`${route.pattern}:${kind}:${value}`, bucket.capacity, bucket.refillPerSecond);
+    } catch (error) {
+      logger.error('Rate limit store failed', { error });
+      return null;
+    }
+
+    if (!result.allowed) {
+      const errorResponse: ErrorResponse = {
+        error: 'Too many requests',
+        code: 'RATE_LIMITED',
+        details: {
+          limit: kind,
+          retryAfter: result.retryAfterSeconds,
+        },
+      };
+      return NextResponse.json(errorResponse, {
+        status: 429,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin': '*',
+          'Retry-After': String(result.retryAfterSeconds),
+        },
+      });
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,48 @@
+/**
+ * x402 Payment Receipts
+ * Confirmed settlements get a receipt signed with the facilitator key, so buyers and
+ * sellers can prove a payment without querying the chain or trusting our logs
+ *
+ * A receipt is a compact JWS: `<header>.<claims>.<signature>` (base64url).
+ * The signature uses alg ES256K-R: secp256k1 over SHA-256 of `<header>.<claims>`,
+ * encoded as r || s || recovery id, so verifiers recover the signer's address
+ * and compare it with the facilitator address from /api/facilitator/supported.
+ */
+
+import { ethers } from 'ethers';
+import type { PaymentReceipt } from '@/types/x402';
+import { addresses, env } from '@/lib/env';
+
+/**
+ * Response header carrying the receipt of a settled payment
+ */
+export const RECEIPT_HEADER = 'X-Payment-Receipt';
+
+/**
+ * JWS algorithm of receipts (recoverable secp256k1, as used by EVM keys)
+ */
+export const RECEIPT_ALGORITHM = 'ES256K-R';
+
+function base64url(value: string | Uint8Array): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+/**
+ * Sign a receipt for a confirmed settlement
+ */
+export function createReceipt(claims: Omit<PaymentReceipt, 'iss' | 'iat'>): string {
+  const header = { alg: RECEIPT_ALGORITHM, typ: 'JWT', kid: addresses.facilitator };
+  const receipt: PaymentReceipt = {
+    iss: addresses.facilitator,
+    iat: Math.floor(Date.now() / 1000),
+    ...claims,
+  };
+
+  const signingInput = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(receipt))}`;
+  const signature = new ethers.SigningKey(env.FACILITATOR_PRIVATE_KEY).sign(
+    ethers.sha256(ethers.toUtf8Bytes(signingInput))
+  );
+  const signatureBytes = ethers.concat([signature.r, signature.s, new Uint8Array([signature.yParity])]);
+
+  return `${signingInput}.${base64url(ethers.getBytes(signatureBytes))}`;
+}
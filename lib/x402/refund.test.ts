@@ -0,0 +1,156 @@
+/**
+ * refundX402Payment tests
+ * The seller wallet and transaction manager are mocked; records live in an in-memory store
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { Seller } from './sellers';
+import { InMemorySettlementStore, setSettlementStore, type SettlementRecord } from './settlement-store';
+import { refundX402Payment } from './refund';
+
+const { sellerWallet, send } = vi.hoisted(() => ({
+  sellerWallet: { address: '0x90F79bf6EB2c4f870365E785982E1f101E93b906' },
+  send: vi.fn(),
+}));
+
+vi.mock('@/lib/evm/wallet', () => ({
+  getSellerWallet: vi.fn(() => sellerWallet),
+}));
+
+vi.mock('@/lib/evm/tx-manager', () => ({
+  getTransactionManager: vi.fn(() => ({ send })),
+}));
+
+const SETTLEMENT_ID = '0xpayer:0xnonce';
+const AMOUNT = ethers.parseEther('1');
+const FEE = ethers.parseEther('0.01');
+
+const seller: Seller = {
+  id: 'weather',
+  payTo: sellerWallet.address,
+  networks: ['polkadot-hub-testnet'],
+  apiKey: 'test-api-key',
+};
+
+let store: InMemorySettlementStore;
+
+function confirmedSettlement(fee?: bigint, payee: string = sellerWallet.address): SettlementRecord {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id: SETTLEMENT_ID,
+    payloadHash: '0xhash',
+    network: 'polkadot-hub-testnet',
+    status: 'confirmed',
+    transactionHash: '0xsettled',
+    blockNumber: 1,
+    payment: {
+      payer: ethers.Wallet.createRandom().address,
+      payee,
+      amount: AMOUNT.toString(),
+      ...(fee ? { fee: { recipient: ethers.Wallet.createRandom().address, amount: fee.toString() } } : {}),
+      asset: 'native',
+      resource: '/api/protected/weather',
+      nonce: '0xnonce',
+    },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function refund(amount: bigint, refundId?: string) {
+  return refundX402Payment({ settlementId: SETTLEMENT_ID, amount: amount.toString(), refundId }, seller);
+}
+
+beforeEach(() => {
+  store = new InMemorySettlementStore();
+  setSettlementStore(store);
+  send.mockReset();
+  send.mockImplementation(async () => {
+    const hash = ethers.hexlify(ethers.randomBytes(32));
+    return { hash, wait: async () => ({ status: 1, hash, blockNumber: 2 }) };
+  });
+});
+
+describe('refund limits', () => {
+  it('refunds up to the settled amount', async () => {
+    await store.create(confirmedSettlement());
+
+    const result = await refund(AMOUNT);
+
+    expect(result.success).toBe(true);
+    expect(result.refundedAmount).toBe(AMOUNT.toString());
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects refunds beyond what is left', async () => {
+    await store.create(confirmedSettlement());
+    await refund(AMOUNT / BigInt(2));
+
+    const result = await refund(AMOUNT / BigInt(2) + BigInt(1));
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('REFUND_EXCEEDS_PAYMENT');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('caps refunds at the seller\'s amount after the facilitator fee', async () => {
+    await store.create(confirmedSettlement(FEE));
+
+    const gross = await refund(AMOUNT);
+    expect(gross.success).toBe(false);
+    expect(gross.code).toBe('REFUND_EXCEEDS_PAYMENT');
+
+    const net = await refund(AMOUNT - FEE);
+    expect(net.success).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not let concurrent refunds go over the limit together', async () => {
+    await store.create(confirmedSettlement());
+    const share = (AMOUNT * BigInt(6)) / BigInt(10);
+
+    const results = await Promise.all([refund(share, 'first'), refund(share, 'second')]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)?.code).toBe('REFUND_EXCEEDS_PAYMENT');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a repeated refundId instead of sending it again', async () => {
+    await store.create(confirmedSettlement());
+    const first = await refund(AMOUNT / BigInt(4), 'upstream-failure-42');
+
+    const retry = await refund(AMOUNT / BigInt(4), 'upstream-failure-42');
+
+    expect(retry.success).toBe(true);
+    expect(retry.replayed).toBe(true);
+    expect(retry.transactionHash).toBe(first.transactionHash);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the reservation of a refund that could not be sent', async () => {
+    await store.create(confirmedSettlement());
+    send.mockRejectedValueOnce(new Error('insufficient funds'));
+
+    const failed = await refund(AMOUNT, 'first');
+    const retried = await refund(AMOUNT, 'second');
+
+    expect(failed.success).toBe(false);
+    expect(retried.success).toBe(true);
+  });
+});
+
+describe('refund wallet', () => {
+  it('rejects refunds of a settlement paid to another seller than the seller wallet', async () => {
+    const other: Seller = { ...seller, id: 'other', payTo: ethers.Wallet.createRandom().address };
+    await store.create(confirmedSettlement(undefined, other.payTo));
+
+    const result = await refundX402Payment({ settlementId: SETTLEMENT_ID, amount: AMOUNT.toString() }, other);
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('SELLER_WALLET_MISMATCH');
+    expect(send).not.toHaveBeenCalled();
+    expect((await store.get(SETTLEMENT_ID))?.refunds).toBeUndefined();
+  });
+});
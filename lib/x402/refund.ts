@@ -0,0 +1,229 @@
+/**
+ * x402 Refunds
+ * Sends funds of a confirmed settlement back to its payer, from the seller wallet
+ * (SELLER_PRIVATE_KEY); settlements paid to any other address cannot be refunded
+ *
+ * Refunds are authorized by the seller that was paid, either with a request signed
+ * with its API key (see seller-auth.ts) or with an EIP-191 signature of
+ * getRefundMessage() by its payout address. Each
+ * refund is reserved on the settlement with one atomic store update before it is
+ * sent, so the total refunded never exceeds what the seller received (the amount
+ * settled, less the facilitator fee) and a retried refund is never sent twice.
+ */
+
+import { ethers } from 'ethers';
+import type { RefundRequest, RefundResult } from '@/types/x402';
+import { getSellerWallet } from '@/lib/evm/wallet';
+import { getTransactionManager } from '@/lib/evm/tx-manager';
+import { getRefundedAmount, getSettlementStore, type RefundRecord, type SettlementRecord } from './settlement-store';
+import type { Seller } from './sellers';
+import { logger, type Logger } from '@/lib/logger';
+
+const ERC20_TRANSFER_ABI = ['function transfer(address to, uint256 value) returns (bool)'];
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Message a seller signs (EIP-191 personal_sign) to authorize a refund
+ */
+export function getRefundMessage(settlementId: string, amount: string, refundId: string): string {
+  return `x402 refund\nSettlement: ${settlementId}\nAmount: ${amount}\nRefund: ${refundId}`;
+}
+
+/**
+ * Check the seller authorized this refund
+ * `seller` is the seller that signed the request, if it was signed
+ * Returns an error message, or null if authorized
+ */
+function authorizeRefund(request: RefundRequest, record: SettlementRecord, seller: Seller | null): string | null {
+  if (seller) {
+    return seller.payTo.toLowerCase() === record.payment?.payee.toLowerCase()
+      ? null
+      : 'Refund must be requested by the seller that was paid';
+  }
+
+  if (!request.signature) {
+    return 'Refund must be signed by the seller, as a request or with a refund signature';
+  }
+  if (!request.refundId) {
+    return 'refundId is required with a seller signature';
+  }
+
+  try {
+    const signer = ethers.verifyMessage(
+      getRefundMessage(request.settlementId, request.amount, request.refundId),
+      request.signature
+    );
+    return signer.toLowerCase() === record.payment?.payee.toLowerCase()
+      ? null
+      : 'Refund signature is not from the seller that was paid';
+  } catch {
+    return 'Invalid refund signature';
+  }
+}
+
+/**
+ * Most that can be refunded in total: what the seller received
+ * The facilitator fee taken out of the payment stays with the fee recipient
+ */
+function getRefundLimit(record: SettlementRecord): bigint {
+  const payment = record.payment;
+  if (!payment) {
+    return BigInt(0);
+  }
+  return BigInt(payment.amount) - BigInt(payment.fee?.amount || '0');
+}
+
+/**
+ * Outcome of a refund that was already requested with the same refundId
+ */
+function replayRefund(record: SettlementRecord, refund: RefundRecord, amount: string): RefundResult {
+  if (refund.amount !== amount) {
+    return { success: false, error: 'refundId was already used for a different amount', code: 'REFUND_ID_REUSED' };
+  }
+  return {
+    success: refund.status !== 'failed',
+    refundId: refund.id,
+    settlementId: record.id,
+    amount,
+    refundedAmount: getRefundedAmount(record).toString(),
+    transactionHash: refund.transactionHash,
+    blockNumber: refund.blockNumber,
+    error: refund.error,
+    replayed: true,
+  };
+}
+
+/**
+ * Refund rejected for going over what is left to refund
+ */
+function exceedsRefundable(record: SettlementRecord): RefundResult {
+  const refundable = getRefundLimit(record) - getRefundedAmount(record);
+  return {
+    success: false,
+    error: `Refund exceeds the refundable amount (${refundable.toString()} left)`,
+    code: 'REFUND_EXCEEDS_PAYMENT',
+  };
+}
+
+/**
+ * Refund part or all of a confirmed settlement to its payer
+ * `seller` is the seller that signed the request, if any
+ */
+export async function refundX402Payment(
+  request: RefundRequest,
+  seller: Seller | null = null,
+  log: Logger = logger
+): Promise<RefundResult> {
+  const { settlementId, amount } = request;
+  if (typeof settlementId !== 'string' || !settlementId) {
+    return { success: false, error: 'settlementId is required', code: 'INVALID_REQUEST' };
+  }
+  if (typeof amount !== 'string' || !/^\d+$/.test(amount) || BigInt(amount) === BigInt(0)) {
+    return { success: false, error: 'amount must be a positive integer string', code: 'INVALID_REQUEST' };
+  }
+
+  const store = getSettlementStore();
+  const record = await store.get(settlementId);
+  if (!record) {
+    return { success: false, error: 'Settlement not found', code: 'SETTLEMENT_NOT_FOUND' };
+  }
+
+  const authError = authorizeRefund(request, record, seller);
+  if (authError) {
+    return { success: false, error: authError, code: 'UNAUTHORIZED' };
+  }
+
+  if (record.status !== 'confirmed') {
+    return { success: false, error: `Settlement is ${record.status}; only confirmed settlements can be refunded`, code: 'SETTLEMENT_NOT_CONFIRMED' };
+  }
+  if (!record.payment || !record.network) {
+    return { success: false, error: 'Settlement has no payment details to refund', code: 'REFUND_UNAVAILABLE' };
+  }
+
+  // Refunds come from the seller wallet (SELLER_PRIVATE_KEY), so only settlements paid to it
+  // can be refunded; another seller's payments must not be refunded from its funds
+  const sellerWallet = getSellerWallet(record.network);
+  if (!sellerWallet) {
+    return { success: false, error: 'SELLER_PRIVATE_KEY is required to send refunds', code: 'REFUND_UNAVAILABLE' };
+  }
+  if (sellerWallet.address.toLowerCase() !== record.payment.payee.toLowerCase()) {
+    return {
+      success: false,
+      error: `Settlement was paid to ${record.payment.payee}; refunds can only be sent from the seller wallet ${sellerWallet.address}`,
+      code: 'SELLER_WALLET_MISMATCH',
+    };
+  }
+
+  // A retried refund returns the original outcome instead of sending again
+  const refundId = request.refundId || ethers.hexlify(ethers.randomBytes(16));
+  const existing = record.refunds?.find((refund) => refund.id === refundId);
+  if (existing) {
+    return replayRefund(record, existing, amount);
+  }
+  if (getRefundedAmount(record) + BigInt(amount) > getRefundLimit(record)) {
+    return exceedsRefundable(record);
+  }
+
+  const { payer, asset } = record.payment;
+  const tx: ethers.TransactionRequest = asset === 'native' || asset === ethers.ZeroAddress
+    ? { to: payer, value: BigInt(amount) }
+    : { to: asset, data: new ethers.Interface(ERC20_TRANSFER_ABI).encodeFunctionData('transfer', [payer, amount]) };
+
+  // Reserve the amount before broadcasting, in one conditional update, so concurrent
+  // refunds (on any instance sharing the store) cannot go over the limit together
+  const reservation = await store.addRefund(
+    settlementId,
+    { id: refundId, amount, status: 'pending', createdAt: nowSeconds() },
+    getRefundLimit(record)
+  );
+  if (!reservation) {
+    return { success: false, error: 'Settlement not found', code: 'SETTLEMENT_NOT_FOUND' };
+  }
+  if (!reservation.added) {
+    const reserved = reservation.record.refunds?.find((refund) => refund.id === refundId);
+    return reserved ? replayRefund(reservation.record, reserved, amount) : exceedsRefundable(reservation.record);
+  }
+
+  let transactionHash: string | undefined;
+  try {
+    const sent = await getTransactionManager(sellerWallet, record.network).send(tx);
+    transactionHash = sent.hash;
+    log.info('refundX402Payment: Refund sent', { settlementId, refundId, payer, amount, hash: sent.hash });
+
+    const receipt = await sent.wait();
+    const confirmed = receipt.status === 1;
+    const updated = await store.updateRefund(settlementId, refundId, confirmed
+      ? { status: 'confirmed', transactionHash: receipt.hash, blockNumber: receipt.blockNumber }
+      : { status: 'failed', transactionHash: receipt.hash, blockNumber: receipt.blockNumber, error: 'Transaction reverted' }
+    );
+
+    return {
+      success: confirmed,
+      refundId,
+      settlementId,
+      amount,
+      refundedAmount: updated ? getRefundedAmount(updated).toString() : undefined,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      error: confirmed ? undefined : 'Transaction reverted',
+    };
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Refund failed';
+    log.error('refundX402Payment: Refund failed', { settlementId, refundId, error });
+    // Once broadcast the refund may still land, so it stays reserved (pending)
+    await store.updateRefund(settlementId, refundId, transactionHash
+      ? { transactionHash, error: errorMsg }
+      : { status: 'failed', error: errorMsg });
+    return {
+      success: false,
+      refundId,
+      settlementId,
+      amount,
+      transactionHash,
+      error: errorMsg,
+    };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Seller request signing tests
+ * Requests are signed as the default seller (no sellers in config/sellers.json)
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { authenticateSeller, getSellerAuthHeaders, SELLER_TIMESTAMP_HEADER } from './seller-auth';
+import { getSeller, SELLER_HEADER, type Seller } from './sellers';
+
+const SETTLE_URL = 'http://localhost:3000/api/facilitator/settle';
+const BODY = JSON.stringify({ paymentPayload: 'payload', paymentRequirements: {} });
+
+const seller = getSeller('default') as Seller;
+
+async function signedRequest(
+  headers: Record<string, string> | Promise<Record<string, string>>,
+  body: string = BODY,
+  url: string = SETTLE_URL
+): Promise<Request> {
+  return new Request(url, { method: 'POST', headers: await headers, body });
+}
+
+function sign(body: string = BODY, url: string = SETTLE_URL): Promise<Record<string, string>> {
+  return getSellerAuthHeaders(seller, 'POST', url, body);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('seller authentication', () => {
+  it('accepts a request signed with the seller\'s key', async () => {
+    const result = await authenticateSeller(await signedRequest(sign()), BODY);
+
+    expect(result).toEqual({ seller });
+  });
+
+  it('rejects an unsigned request', async () => {
+    const result = await authenticateSeller(await signedRequest({}), BODY);
+
+    expect(result).toMatchObject({ code: 'SELLER_UNAUTHORIZED' });
+    expect('error' in result && result.error).toMatch(/^Request must be signed by a seller/);
+  });
+
+  it('rejects an unknown seller', async () => {
+    const headers = { ...(await sign()), [SELLER_HEADER]: 'someone-else' };
+
+    const result = await authenticateSeller(await signedRequest(headers), BODY);
+
+    expect(result).toEqual({ error: 'Unknown seller: someone-else', code: 'SELLER_UNAUTHORIZED' });
+  });
+
+  it('rejects a request signed too long ago', async () => {
+    vi.useFakeTimers({ now: Date.now() - 3600 * 1000, toFake: ['Date'] });
+    const stale = await sign();
+    vi.useRealTimers();
+
+    const result = await authenticateSeller(await signedRequest(stale), BODY);
+
+    expect(result).toEqual({ error: 'Request timestamp is missing or too old', code: 'SELLER_UNAUTHORIZED' });
+  });
+
+  it('rejects a signature made with another key', async () => {
+    const headers = await getSellerAuthHeaders({ ...seller, apiKey: 'not-the-key' }, 'POST', SETTLE_URL, BODY);
+
+    const result = await authenticateSeller(await signedRequest(headers), BODY);
+
+    expect(result).toEqual({ error: 'Invalid request signature', code: 'SELLER_UNAUTHORIZED' });
+  });
+
+  it('rejects a request whose body was changed after signing', async () => {
+    const tampered = JSON.stringify({ paymentPayload: 'other', paymentRequirements: {} });
+
+    const result = await authenticateSeller(await signedRequest(sign(), tampered), tampered);
+
+    expect(result).toEqual({ error: 'Invalid request signature', code: 'SELLER_UNAUTHORIZED' });
+  });
+
+  it('rejects a signature replayed against another endpoint', async () => {
+    const refundUrl = 'http://localhost:3000/api/facilitator/refund';
+
+    const result = await authenticateSeller(await signedRequest(sign(), BODY, refundUrl), BODY);
+
+    expect(result).toEqual({ error: 'Invalid request signature', code: 'SELLER_UNAUTHORIZED' });
+  });
+
+  it('rejects a signature whose timestamp was changed', async () => {
+    const headers = await sign();
+    headers[SELLER_TIMESTAMP_HEADER] = String(Number(headers[SELLER_TIMESTAMP_HEADER]) + 1);
+
+    const result = await authenticateSeller(await signedRequest(headers), BODY);
+
+    expect(result).toEqual({ error: 'Invalid request signature', code: 'SELLER_UNAUTHORIZED' });
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Seller request signing
+ * Sellers authenticate their calls to the facilitator with an HMAC-SHA256 of the
+ * request, keyed with the API key the facilitator issued them (see sellers.ts):
+ *
+ *   X-402-Seller:    <seller id>
+ *   X-402-Timestamp: <unix seconds>
+ *   X-402-Signature: hex(HMAC(apiKey, "<METHOD>\n<path>\n<timestamp>\n<hex sha256(body)>"))
+ *
+ * The key itself is never sent. Requests older than MAX_REQUEST_AGE_SECONDS are
+ * rejected, so a captured request can only be replayed briefly (and settlement
+ * is idempotent, so a replay never settles twice).
+ */
+
+import { env } from '@/lib/env';
+import { getSeller, SELLER_HEADER, type Seller } from './sellers';
+import { utf8 } from './signed-token';
+
+/**
+ * Request header carrying the signing time (unix seconds)
+ */
+export const SELLER_TIMESTAMP_HEADER = 'X-402-Timestamp';
+
+/**
+ * Request header carrying the request signature
+ */
+export const SELLER_SIGNATURE_HEADER = 'X-402-Signature';
+
+/**
+ * Headers a signed request carries, for CORS Allow-Headers
+ */
+export const SELLER_AUTH_HEADERS = [SELLER_HEADER, SELLER_TIMESTAMP_HEADER, SELLER_SIGNATURE_HEADER];
+
+/**
+ * How far a request's timestamp may be from now (seconds)
+ */
+const MAX_REQUEST_AGE_SECONDS = 300;
+
+function toHex(bytes: ArrayBuffer): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function getPathname(url: string): string {
+  return new URL(url, 'http://localhost').pathname;
+}
+
+/**
+ * HMAC-SHA256 of a request, hex encoded
+ */
+async function signRequest(apiKey: string, method: string, pathname: string, timestamp: string, body: string): Promise<string> {
+  const bodyHash = toHex(await crypto.subtle.digest('SHA-256', utf8(body)));
+  const key = await crypto.subtle.importKey('raw', utf8(apiKey), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, utf8(`${method.toUpperCase()}\n${pathname}\n${timestamp}\n${bodyHash}`));
+  return toHex(signature);
+}
+
+/**
+ * Constant-time comparison of two hex strings
+ */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Headers authenticating a seller's request to the facilitator
+ * `body` must be exactly the body that is sent
+ */
+export async function getSellerAuthHeaders(
+  seller: Seller,
+  method: string,
+  url: string,
+  body: string
+): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  return {
+    [SELLER_HEADER]: seller.id,
+    [SELLER_TIMESTAMP_HEADER]: timestamp,
+    [SELLER_SIGNATURE_HEADER]: await signRequest(seller.apiKey, method, getPathname(url), timestamp, body),
+  };
+}
+
+/**
+ * Authenticate a signed seller request
+ * `body` is the raw request body (read it with request.text())
+ */
+export async function authenticateSeller(
+  request: Request,
+  body: string
+): Promise<{ seller: Seller } | { error: string; code: 'SELLER_UNAUTHORIZED' }> {
+  const fail = (error: string) => ({ error, code: 'SELLER_UNAUTHORIZED' as const });
+
+  const sellerId = request.headers.get(SELLER_HEADER);
+  const timestamp = request.headers.get(SELLER_TIMESTAMP_HEADER);
+  const signature = request.headers.get(SELLER_SIGNATURE_HEADER);
+  if (!sellerId || !timestamp || !signature) {
+    return fail(`Request must be signed by a seller (${SELLER_AUTH_HEADERS.join(', ')})`);
+  }
+
+  const seller = getSeller(sellerId);
+  if (!seller) {
+    return fail(`Unknown seller: ${sellerId}`);
+  }
+
+  const signedAt = Number(timestamp);
+  if (!/^\d+$/.test(timestamp) || Math.abs(Math.floor(Date.now() / 1000) - signedAt) > MAX_REQUEST_AGE_SECONDS + env.CLOCK_SKEW_SECONDS) {
+    return fail('Request timestamp is missing or too old');
+  }
+
+  const expected = await signRequest(seller.apiKey, request.method, getPathname(request.url), timestamp, body);
+  if (!safeEqual(expected, signature.toLowerCase())) {
+    return fail('Invalid request signature');
+  }
+
+  return { seller };
+}
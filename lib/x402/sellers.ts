@@ -0,0 +1,188 @@
+/**
+ * x402 Seller Registry
+ * Sellers served by this facilitator are declared in config/sellers.json and
+ * validated when this module loads. Each seller has a payout address (payTo),
+ * the networks and assets it accepts, the routes it sells and the env var
+ * holding the API key the facilitator issued it (scripts/issue-seller-key.mjs).
+ *
+ * With no sellers configured, the registry holds one `default` seller built from
+ * SELLER_ADDRESS and SELLER_API_KEY that accepts every network, asset and route.
+ *
+ * Sellers sign their calls to the facilitator with their API key (see seller-auth.ts).
+ */
+
+import { ethers } from 'ethers';
+import sellersConfig from '@/config/sellers.json';
+import type { PaymentRequirements } from '@/types/x402';
+import { addresses, env } from '@/lib/env';
+import { getNetworkAsset, getSupportedNetworks, isNetworkSupported } from '@/lib/evm/networks';
+import { compilePattern } from './pricing';
+import { normalizeRequirements } from './protocol';
+
+/**
+ * Request header naming the seller calling the facilitator
+ */
+export const SELLER_HEADER = 'X-402-Seller';
+
+/**
+ * Seller entry of config/sellers.json
+ */
+export interface SellerSettings {
+  id: string;
+  payTo: string; // Payout address
+  networks?: string[]; // Accepted networks (default: every configured network)
+  assets?: string[]; // Accepted assets, 'native' or token addresses (default: every configured asset)
+  routes?: string[]; // Route patterns the seller sells, as in config/pricing.json (default: every route)
+  apiKeyEnv: string; // Env var holding the seller's API key
+}
+
+/**
+ * Registered seller
+ */
+export interface Seller {
+  id: string;
+  payTo: string;
+  networks: string[];
+  assets?: string[];
+  routes?: string[];
+  apiKey: string; // Key the seller signs its requests with
+}
+
+/**
+ * Resolve and validate one seller entry
+ */
+function compileSeller(settings: SellerSettings): Seller {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid seller ${JSON.stringify(settings.id)}: ${message}`);
+  };
+
+  if (typeof settings.id !== 'string' || !settings.id) {
+    fail('id is required');
+  }
+  if (!ethers.isAddress(settings.payTo)) {
+    fail(`payTo ${settings.payTo} is not an address`);
+  }
+
+  const networks = settings.networks ?? getSupportedNetworks();
+  for (const network of networks) {
+    if (!isNetworkSupported(network)) {
+      fail(`network ${network} is not configured`);
+    }
+  }
+  for (const asset of settings.assets ?? []) {
+    if (!networks.some((network) => getNetworkAsset(network, asset))) {
+      fail(`asset ${asset} is not configured on any of its networks`);
+    }
+  }
+  for (const route of settings.routes ?? []) {
+    if (typeof route !== 'string' || !route.startsWith('/')) {
+      fail(`route ${JSON.stringify(route)} must start with "/"`);
+    }
+  }
+
+  if (typeof settings.apiKeyEnv !== 'string' || !settings.apiKeyEnv) {
+    fail('apiKeyEnv is required');
+  }
+  const apiKey = process.env[settings.apiKeyEnv]?.trim() || fail(`${settings.apiKeyEnv} is not set`);
+
+  return {
+    id: settings.id,
+    payTo: ethers.getAddress(settings.payTo),
+    networks,
+    assets: settings.assets,
+    routes: settings.routes,
+    apiKey,
+  };
+}
+
+// JSON is untyped; every entry is validated while compiling
+const configured = (sellersConfig.sellers as unknown as SellerSettings[]).map(compileSeller);
+const SELLERS: Seller[] = configured.length > 0
+  ? configured
+  : [{
+    id: 'default',
+    payTo: ethers.getAddress(addresses.seller),
+    networks: getSupportedNetworks(),
+    // Without SELLER_API_KEY only this deployment, which holds the facilitator key, can sign as the default seller
+    apiKey: env.SELLER_API_KEY || ethers.keccak256(ethers.toUtf8Bytes(`x402-seller:${env.FACILITATOR_PRIVATE_KEY}`)),
+  }];
+
+const duplicate = SELLERS.find((seller, index) => SELLERS.findIndex((other) => other.id === seller.id) !== index);
+if (duplicate) {
+  throw new Error(`Invalid seller ${JSON.stringify(duplicate.id)}: id is used twice`);
+}
+
+const ROUTE_PATTERNS = new Map(
+  SELLERS.map((seller) => [seller.id, seller.routes?.map((route) => compilePattern(route).regex)])
+);
+
+/**
+ * Whether a seller sells a route
+ */
+function sellsRoute(seller: Seller, pathname: string): boolean {
+  const patterns = ROUTE_PATTERNS.get(seller.id);
+  return !patterns || patterns.some((regex) => regex.test(pathname));
+}
+
+function sameAsset(a: string, b: string): boolean {
+  const native = (asset: string) => asset === 'native' || asset === ethers.ZeroAddress;
+  return native(a) ? native(b) : a.toLowerCase() === b.toLowerCase();
+}
+
+function getPathname(resource: string): string {
+  try {
+    return new URL(resource, 'http://localhost').pathname;
+  } catch {
+    return resource;
+  }
+}
+
+/**
+ * Get a seller by id
+ */
+export function getSeller(id: string): Seller | null {
+  return SELLERS.find((entry) => entry.id === id) || null;
+}
+
+/**
+ * Get the seller selling a route
+ * The first seller whose routes match wins; sellers without routes sell every route
+ */
+export function getSellerForRoute(pathname: string): Seller | null {
+  return SELLERS.find((seller) => sellsRoute(seller, pathname)) || null;
+}
+
+/**
+ * Get the seller paid at an address
+ */
+export function getSellerByPayTo(payTo: string): Seller | null {
+  return SELLERS.find((seller) => seller.payTo.toLowerCase() === payTo.toLowerCase()) || null;
+}
+
+/**
+ * Check a seller may be paid as required: to its payout address, on its
+ * networks and assets, for one of its routes
+ * Returns an error, or null if allowed
+ */
+export function checkSellerPayment(
+  seller: Seller,
+  paymentRequirements: PaymentRequirements
+): { error: string; code: 'SELLER_NOT_ALLOWED' } | null {
+  const requirements = normalizeRequirements(paymentRequirements);
+  if (!requirements.payTo || requirements.payTo.toLowerCase() !== seller.payTo.toLowerCase()) {
+    return { error: `Payment must be to seller ${seller.id}'s payout address`, code: 'SELLER_NOT_ALLOWED' };
+  }
+  if (!seller.networks.includes(requirements.network)) {
+    return { error: `Seller ${seller.id} does not accept network ${requirements.network}`, code: 'SELLER_NOT_ALLOWED' };
+  }
+  const asset = requirements.asset || 'native';
+  if (seller.assets && !seller.assets.some((accepted) => sameAsset(accepted, asset))) {
+    return { error: `Seller ${seller.id} does not accept asset ${asset}`, code: 'SELLER_NOT_ALLOWED' };
+  }
+  const pathname = getPathname(requirements.resource || '');
+  if (!sellsRoute(seller, pathname)) {
+    return { error: `Resource ${pathname} is not sold by seller ${seller.id}`, code: 'SELLER_NOT_ALLOWED' };
+  }
+
+  return null;
+}
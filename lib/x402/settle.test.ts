@@ -0,0 +1,290 @@
+/**
+ * settleX402Payment tests
+ * Native payments from the buyer wallet, with the wallet, provider and
+ * transaction manager mocked; records and nonces live in in-memory stores
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createPaymentHeader } from 'x402/client';
+import { createSigner } from 'x402/types';
+import type { PaymentRequirements } from '@/types/x402';
+import { EIP3009_ABI } from '@/lib/evm/eip3009';
+import { env } from '@/lib/env';
+import { renderMetrics } from '@/lib/metrics';
+import { InMemoryNonceStore, setNonceStore } from './nonce-store';
+import { InMemorySettlementStore, setSettlementStore } from './settlement-store';
+import { getSettlementStatus, settleX402Payment } from './settle';
+
+const { send, provider, FEE_RECIPIENT, BASE_SEPOLIA_USDC } = vi.hoisted(() => ({
+  send: vi.fn(),
+  provider: {
+    getBalance: vi.fn(),
+    getBlock: vi.fn(),
+    getBlockNumber: vi.fn(),
+    getTransactionReceipt: vi.fn(),
+  },
+  FEE_RECIPIENT: '0x00000000000000000000000000000000000fee00',
+  BASE_SEPOLIA_USDC: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+}));
+
+// A network x402's own client can sign for, with its USDC as an EIP-3009 asset
+vi.mock('@/config/networks.json', async (importOriginal) => {
+  const networks = (await importOriginal<{ default: Record<string, unknown> }>()).default;
+  return {
+    default: {
+      ...networks,
+      'base-sepolia': {
+        name: 'Base Sepolia',
+        chainId: 84532,
+        rpcUrls: ['https://sepolia.base.org'],
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        assets: [{ address: BASE_SEPOLIA_USDC, symbol: 'USDC', decimals: 6, name: 'USDC', version: '2' }],
+        testnet: true,
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/evm/wallet', async () => {
+  const { ethers } = await import('ethers');
+  const { env } = await import('@/lib/env');
+  const buyer = new ethers.Wallet(env.BUYER_PRIVATE_KEY);
+  return {
+    getBuyerWallet: vi.fn(() => ({ getAddress: async () => buyer.address, provider })),
+    getProvider: vi.fn(() => provider),
+    getWallet: vi.fn(() => new ethers.Wallet(env.FACILITATOR_PRIVATE_KEY)),
+  };
+});
+
+vi.mock('@/lib/evm/tx-manager', () => ({
+  getTransactionManager: vi.fn(() => ({ send })),
+  getManagedTransaction: vi.fn(() => null),
+}));
+
+vi.mock('@/lib/evm/escrow', () => ({
+  getEscrowAddress: vi.fn(() => null),
+  getEscrowBalance: vi.fn(),
+  redeemAuthorization: vi.fn(),
+}));
+
+vi.mock('./fees', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./fees')>()),
+  getFeeCharge: vi.fn(() => ({ recipient: FEE_RECIPIENT, amount: ethers.parseEther('0.01').toString() })),
+}));
+
+const AMOUNT = ethers.parseEther('1');
+const buyer = new ethers.Wallet(env.BUYER_PRIVATE_KEY);
+
+function requirements(): PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'polkadot-hub-testnet',
+    maxAmountRequired: AMOUNT.toString(),
+    resource: '/api/protected/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: env.SELLER_ADDRESS,
+    maxTimeoutSeconds: 300,
+    asset: 'native',
+    extra: {},
+  };
+}
+
+/**
+ * A buyer-wallet payment payload (settlement trusts verify for the signature)
+ */
+function payload(): string {
+  const now = Math.floor(Date.now() / 1000);
+  return JSON.stringify({
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'polkadot-hub-testnet',
+    payload: {
+      signature: '0x',
+      authorization: {
+        from: buyer.address,
+        to: env.SELLER_ADDRESS,
+        amount: AMOUNT.toString(),
+        nonce: ethers.hexlify(ethers.randomBytes(32)),
+        validAfter: now - 60,
+        validBefore: now + 300,
+        resource: '/api/protected/weather',
+        network: 'polkadot-hub-testnet',
+      },
+    },
+  });
+}
+
+function sentTransaction(status: number = 1) {
+  const hash = ethers.hexlify(ethers.randomBytes(32));
+  return { hash, wait: async () => ({ status, hash, blockNumber: 5 }) };
+}
+
+/**
+ * Rendered x402_settled_amount_total of native payments on the test network
+ */
+function nativeSettledAmount(): number {
+  const line = renderMetrics()
+    .split('\n')
+    .find((entry) => entry.startsWith('x402_settled_amount_total{asset="native",network="polkadot-hub-testnet"}'));
+  return line ? Number(line.split(' ')[1]) : 0;
+}
+
+beforeEach(() => {
+  setSettlementStore(new InMemorySettlementStore());
+  setNonceStore(new InMemoryNonceStore());
+  send.mockReset();
+  send.mockImplementation(async () => sentTransaction());
+  provider.getBalance.mockResolvedValue(ethers.parseEther('10'));
+  provider.getBlock.mockResolvedValue({ timestamp: Math.floor(Date.now() / 1000) });
+  provider.getBlockNumber.mockResolvedValue(6);
+  provider.getTransactionReceipt.mockImplementation(async (hash: string) => ({ status: 1, hash, blockNumber: 5 }));
+});
+
+describe('idempotency and replay', () => {
+  it('returns the recorded settlement for a repeated payload without sending again', async () => {
+    const paid = payload();
+    const first = await settleX402Payment(paid, requirements());
+
+    const retry = await settleX402Payment(paid, requirements());
+
+    expect(retry.success).toBe(true);
+    expect(retry.replayed).toBe(true);
+    expect(retry.transactionHash).toBe(first.transactionHash);
+    expect(retry.settlementId).toBe(first.settlementId);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports a concurrent settle of the same payload as in progress', async () => {
+    const paid = payload();
+
+    const results = await Promise.all([settleX402Payment(paid, requirements()), settleX402Payment(paid, requirements())]);
+
+    expect(results.filter((result) => result.success)).toHaveLength(1);
+    expect(results.find((result) => !result.success)?.code).toBe('SETTLEMENT_IN_PROGRESS');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an idempotency key reused for a different payload', async () => {
+    await settleX402Payment(payload(), requirements(), { idempotencyKey: 'order-1' });
+
+    const reused = await settleX402Payment(payload(), requirements(), { idempotencyKey: 'order-1' });
+
+    expect(reused.success).toBe(false);
+    expect(reused.code).toBe('IDEMPOTENCY_KEY_REUSED');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an authorization replayed under another idempotency key', async () => {
+    const paid = payload();
+    await settleX402Payment(paid, requirements(), { idempotencyKey: 'order-1' });
+
+    const replayed = await settleX402Payment(paid, requirements(), { idempotencyKey: 'order-2' });
+
+    expect(replayed.success).toBe(false);
+    expect(replayed.code).toBe('NONCE_ALREADY_USED');
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('fee leg of buyer wallet payments', () => {
+  it('sends the seller\'s share and the fee, and records both legs', async () => {
+    const result = await settleX402Payment(payload(), requirements());
+
+    expect(result.success).toBe(true);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0][0].value).toBe(AMOUNT - ethers.parseEther('0.01'));
+    expect(send.mock.calls[1][0]).toEqual({ to: FEE_RECIPIENT, value: ethers.parseEther('0.01') });
+    expect(result.split?.fee.status).toBe('confirmed');
+  });
+
+  it('records a fee leg that could not be sent as failed', async () => {
+    send
+      .mockImplementationOnce(async () => sentTransaction())
+      .mockRejectedValueOnce(new Error('nonce too low'));
+
+    const result = await settleX402Payment(payload(), requirements());
+
+    expect(result.success).toBe(true);
+    expect(result.split?.fee).toMatchObject({ status: 'failed', error: 'nonce too low' });
+    expect(result.split?.fee.transactionHash).toBeUndefined();
+  });
+
+  it('re-sends a failed fee leg on the next status check', async () => {
+    send
+      .mockImplementationOnce(async () => sentTransaction())
+      .mockRejectedValueOnce(new Error('nonce too low'));
+    const result = await settleX402Payment(payload(), requirements());
+
+    const status = await getSettlementStatus(result.settlementId!);
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(send.mock.calls[2][0]).toEqual({ to: FEE_RECIPIENT, value: ethers.parseEther('0.01') });
+    expect(status?.split?.fee.status).toBe('pending');
+    expect(status?.split?.fee.transactionHash).toMatch(/^0x/);
+
+    const followed = await getSettlementStatus(result.settlementId!);
+    expect(followed?.split?.fee.status).toBe('confirmed');
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('records a reverted fee leg as failed', async () => {
+    send
+      .mockImplementationOnce(async () => sentTransaction())
+      .mockImplementationOnce(async () => sentTransaction(0));
+
+    const result = await settleX402Payment(payload(), requirements());
+
+    expect(result.success).toBe(true);
+    expect(result.split?.fee).toMatchObject({ status: 'failed', error: 'Fee transaction reverted' });
+  });
+});
+
+describe('settlement metrics', () => {
+  it('records the amount settled in whole units of the asset', async () => {
+    const before = nativeSettledAmount();
+
+    await settleX402Payment(payload(), requirements());
+
+    expect(nativeSettledAmount() - before).toBe(1);
+  });
+});
+
+describe('spec EIP-3009 payments', () => {
+  function usdcRequirements(): PaymentRequirements {
+    return {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      maxAmountRequired: '10000',
+      resource: 'http://localhost:3000/api/protected/weather',
+      description: 'Weather',
+      mimeType: 'application/json',
+      payTo: env.SELLER_ADDRESS,
+      maxTimeoutSeconds: 300,
+      asset: BASE_SEPOLIA_USDC,
+      extra: { name: 'USDC', version: '2' },
+    };
+  }
+
+  it('settles a payment signed by the x402 client (no asset in the authorization)', async () => {
+    const header = await createPaymentHeader(
+      await createSigner('base-sepolia', buyer.privateKey),
+      1,
+      usdcRequirements() as Parameters<typeof createPaymentHeader>[2]
+    );
+
+    const result = await settleX402Payment(header, usdcRequirements());
+
+    expect(result.error).toBeUndefined();
+    expect(result.success).toBe(true);
+    expect(send).toHaveBeenCalledTimes(1);
+    const [transfer] = send.mock.calls[0];
+    expect(transfer.to).toBe(BASE_SEPOLIA_USDC);
+    const call = new ethers.Interface(EIP3009_ABI).parseTransaction({ data: transfer.data });
+    expect(call?.name).toBe('transferWithAuthorization');
+    expect(call?.args.slice(0, 3)).toEqual([buyer.address, env.SELLER_ADDRESS, BigInt(10000)]);
+  });
+});
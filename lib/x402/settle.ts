@@ -1,12 +1,544 @@
 /**
  * x402 Payment Settlement Logic
  * Handles settlement of verified payments by transferring native tokens
+ * or submitting EIP-3009 token authorizations
  */
 
-import type { PaymentRequirements, SettlementResult } from '@/types/x402';
-import { getNetworkConfig } from '@/lib/evm/networks';
-import { getWallet } from '@/lib/evm/wallet';
+import type { PaymentRequirements, SettlementResult, SettlementSplit, SettlementStatusResult } from '@/types/x402';
+import { getNetworkAsset, getNetworkConfig, type NetworkConfig } from '@/lib/evm/networks';
+import { getBuyerWallet, getProvider, getWallet } from '@/lib/evm/wallet';
+import { getManagedTransaction, getTransactionManager, type ManagedTransaction } from '@/lib/evm/tx-manager';
 import { ethers } from 'ethers';
+import { EIP3009_ABI } from '@/lib/evm/eip3009';
+import { getEscrowAddress, getEscrowBalance, redeemAuthorization, type EscrowAuthorization } from '@/lib/evm/escrow';
+import { getNonceStore, type NonceStore } from './nonce-store';
+import { getSettlementStore, type ReceiptPayment, type SettlementRecord } from './settlement-store';
+import { createReceipt } from './receipt';
+import { getFeeCharge, type FeeCharge } from './fees';
+import {
+  getAuthorizationAsset,
+  isSupportedX402Version,
+  normalizeRequirements,
+  SUPPORTED_X402_VERSIONS,
+} from './protocol';
+import { env } from '@/lib/env';
+import { logger, type Logger } from '@/lib/logger';
+import { settledAmount, settlementDuration, settlements } from '@/lib/metrics';
+import { failSpan, withSpan } from '@/lib/tracing';
+
+/**
+ * Settlement options
+ */
+export interface SettleOptions {
+  /**
+   * Client-supplied idempotency key; defaults to the authorization's payer:nonce
+   */
+  idempotencyKey?: string;
+
+  /**
+   * 'sync' waits for block inclusion; 'async' returns right after broadcast with a pending status
+   */
+  mode?: 'sync' | 'async';
+
+  /**
+   * "upto" scheme only: amount actually consumed, at most the authorized maximum
+   * Defaults to the full authorized amount
+   */
+  amount?: string;
+
+  /**
+   * Reservation returned by reserveX402Payment(), letting its holder settle the reserved record
+   */
+  reservation?: string;
+
+  /**
+   * Logger carrying the request's context (default: the root logger)
+   */
+  logger?: Logger;
+}
+
+/**
+ * Settle an x402 payment exactly once
+ *
+ * Repeated calls for the same idempotency key return the stored outcome
+ * (or the in-flight status) instead of broadcasting another transaction.
+ * In async mode the result carries a settlementId to poll with getSettlementStatus().
+ */
+export async function settleX402Payment(
+  payload: string,
+  requirements: PaymentRequirements,
+  options: SettleOptions = {}
+): Promise<SettlementResult> {
+  return withSpan('x402.settle_payment', {
+    'x402.network': requirements.network,
+    'x402.scheme': requirements.scheme,
+    'x402.asset': requirements.asset,
+    'x402.amount': options.amount,
+    'x402.settlement_mode': options.mode === 'async' ? 'async' : 'sync',
+  }, async (span) => {
+    const result = await settleOnce(payload, requirements, options);
+    span.setAttributes({
+      'x402.settled': result.success,
+      'x402.settlement_status': result.status,
+      'x402.settlement_id': result.settlementId,
+      'x402.transaction_hash': result.transactionHash,
+      'x402.block_number': result.blockNumber,
+    });
+    if (!result.success) {
+      failSpan(span, result.error || 'Settlement failed');
+    }
+    return result;
+  });
+}
+
+/**
+ * settleX402Payment() without its span
+ */
+async function settleOnce(
+  payload: string,
+  requirements: PaymentRequirements,
+  options: SettleOptions
+): Promise<SettlementResult> {
+  const confirm = options.mode !== 'async';
+  const id = options.idempotencyKey || getAuthorizationKey(payload);
+  // Every line of a settlement carries its id (payer:nonce unless an idempotency key was given)
+  const log = (options.logger || logger).child({ settlementId: id || undefined });
+  const startedAt = Date.now();
+  if (!id) {
+    // Undecodable payloads cannot be broadcast; let settlement report the error
+    const result = await executeSettlement(payload, requirements, confirm, options.amount, log);
+    observeSettlement(requirements, result, confirm, startedAt);
+    return result;
+  }
+
+  const store = getSettlementStore();
+  const record = newSettlementRecord(id, payload, requirements, options.amount);
+  const { payloadHash } = record;
+
+  if (!(await store.create(record))) {
+    const existing = await store.get(id);
+    // The holder of a reservation settles the record it reserved
+    const reserved = existing !== null
+      && options.reservation !== undefined
+      && existing.reservation === options.reservation
+      && existing.payloadHash === payloadHash
+      && existing.status === 'pending'
+      && !existing.transactionHash;
+    if (existing && !reserved) {
+      log.info('settleX402Payment: Returning existing settlement', {
+        status: existing.status,
+        transactionHash: existing.transactionHash,
+      });
+      return toReplayedResult(existing, payloadHash);
+    }
+  }
+
+  const result = await executeSettlement(payload, requirements, confirm, options.amount, log);
+  observeSettlement(requirements, result, confirm, startedAt, record.payment?.amount);
+
+  if (!result.success && !result.transactionHash) {
+    // Nothing was broadcast, so a retry is safe
+    await store.delete(id);
+    return result;
+  }
+
+  const status = result.status === 'pending' ? 'pending' : result.success ? 'confirmed' : 'failed';
+  const updated = await store.update(id, {
+    status,
+    transactionHash: result.transactionHash,
+    blockNumber: result.blockNumber,
+    error: result.error,
+    code: result.code,
+    split: result.split,
+    // The receipt states the fee taken out of the amount
+    payment: record.payment && result.split
+      ? { ...record.payment, fee: { recipient: result.split.fee.recipient, amount: result.split.fee.amount } }
+      : record.payment,
+  });
+  const receipt = updated ? (await issueReceipt(updated, log))?.receipt : undefined;
+
+  return {
+    ...result,
+    status,
+    settlementId: id,
+    receipt,
+  };
+}
+
+/**
+ * Reserve a verified payment for one request before serving it
+ * Creates the authorization's pending settlement record, so that concurrent requests
+ * carrying the same payment, and repeats after it settled, are refused.
+ * The holder then settles it (settleX402Payment with the reservation) or voids it.
+ */
+export async function reserveX402Payment(
+  payload: string,
+  requirements: PaymentRequirements
+): Promise<{ reservation: string } | { error: string }> {
+  const id = getAuthorizationKey(payload);
+  if (!id) {
+    return { error: 'Missing authorization in payload' };
+  }
+
+  const reservation = ethers.hexlify(ethers.randomBytes(16));
+  const created = await getSettlementStore().create({
+    ...newSettlementRecord(id, payload, requirements),
+    reservation,
+  });
+  return created ? { reservation } : { error: 'Payment authorization was already used' };
+}
+
+/**
+ * Void a verified but unsettled payment so it can no longer be settled here
+ * Marks the authorization's nonce as used until it expires; the payer is not charged.
+ * Returns false if the authorization was already settled or voided.
+ * A reservation made with reserveX402Payment() is released as a failed settlement.
+ */
+export async function voidX402Payment(
+  payload: string,
+  log: Logger = logger,
+  reservation?: string
+): Promise<{ voided: boolean; error?: string }> {
+  try {
+    const decoded = payload.startsWith('{') ? payload : Buffer.from(payload, 'base64').toString('utf-8');
+    const paymentData = JSON.parse(decoded);
+    const authorization = paymentData?.payload?.authorization || paymentData?.authorization;
+    const validBefore = Number(authorization?.validBefore);
+    if (!authorization?.from || !authorization?.nonce || !validBefore) {
+      return { voided: false, error: 'Missing authorization in payload' };
+    }
+
+    const consumed = await getNonceStore().consume(
+      String(authorization.from),
+      String(authorization.nonce),
+      validBefore + env.CLOCK_SKEW_SECONDS
+    );
+    if (reservation) {
+      await releaseReservation(getAuthorizationKey(payload), reservation);
+    }
+    if (!consumed) {
+      return { voided: false, error: 'Authorization was already settled or voided' };
+    }
+
+    log.info('voidX402Payment: Authorization voided', {
+      from: authorization.from,
+      nonce: authorization.nonce,
+    });
+    return { voided: true };
+  } catch (error) {
+    return {
+      voided: false,
+      error: 'Failed to parse payload: ' + (error instanceof Error ? error.message : 'Invalid format'),
+    };
+  }
+}
+
+/**
+ * Get the current status of a settlement
+ * Pending settlements are refreshed from the chain, so no background worker is needed
+ */
+export async function getSettlementStatus(id: string): Promise<SettlementStatusResult | null> {
+  const store = getSettlementStore();
+  let record = await store.get(id);
+  if (!record) {
+    return null;
+  }
+
+  // Follow fee-bump replacements made by the transaction manager
+  const managed = record.transactionHash ? getManagedTransaction(record.transactionHash) : null;
+  if (managed && managed.hash !== record.transactionHash) {
+    record = await store.update(id, { transactionHash: managed.hash }) || record;
+  }
+
+  let confirmations: number | undefined;
+  if (record.transactionHash && record.network && record.status !== 'failed') {
+    const provider = getProvider(record.network);
+    const receipt = await provider.getTransactionReceipt(record.transactionHash);
+
+    if (receipt) {
+      const currentBlock = await provider.getBlockNumber();
+      confirmations = Math.max(currentBlock - receipt.blockNumber + 1, 0);
+
+      if (record.status === 'pending') {
+        record = await store.update(id, receipt.status === 1
+          ? { status: 'confirmed', blockNumber: receipt.blockNumber }
+          : { status: 'failed', blockNumber: receipt.blockNumber, error: 'Transaction reverted' }
+        ) || record;
+        record = await issueReceipt(record) || record;
+      }
+    } else if (managed?.status === 'failed' && record.status === 'pending') {
+      // Dropped or never included after all fee bumps
+      record = await store.update(id, { status: 'failed', error: managed.error }) || record;
+    }
+  }
+
+  if (record.status !== 'failed') {
+    record = await refreshFeeLeg(record);
+  }
+
+  return {
+    settlementId: record.id,
+    status: record.status,
+    network: record.network,
+    transactionHash: record.transactionHash,
+    blockNumber: record.blockNumber,
+    confirmations,
+    error: record.error,
+    receipt: record.receipt,
+    split: record.split,
+    refunds: record.refunds?.map(({ id, amount, status, transactionHash }) => ({ id, amount, status, transactionHash })),
+  };
+}
+
+/**
+ * Follow a fee sent as its own transfer, and re-send it if it failed
+ * The seller's leg is what settles the payment; the fee is owed by the buyer
+ * wallet, which this server holds, so it can be sent again
+ */
+async function refreshFeeLeg(record: SettlementRecord, log: Logger = logger): Promise<SettlementRecord> {
+  const fee = record.split?.fee;
+  if (!record.split || !fee?.status || fee.status === 'confirmed' || !record.network) {
+    return record;
+  }
+  const saveFee = async (changes: Partial<SettlementSplit['fee']>) =>
+    await getSettlementStore().update(record.id, { split: { ...record.split!, fee: { ...fee, ...changes } } }) || record;
+
+  if (fee.status === 'pending' && fee.transactionHash) {
+    const managed = getManagedTransaction(fee.transactionHash);
+    const hash = managed?.hash || fee.transactionHash;
+    const receipt = await getProvider(record.network).getTransactionReceipt(hash);
+    if (receipt) {
+      return await saveFee(receipt.status === 1
+        ? { status: 'confirmed', transactionHash: hash, error: undefined }
+        : { status: 'failed', transactionHash: hash, error: 'Fee transaction reverted' });
+    }
+    if (managed?.status !== 'failed') {
+      return hash === fee.transactionHash ? record : await saveFee({ transactionHash: hash });
+    }
+    // Dropped or never included after all fee bumps: send it again below
+  }
+
+  try {
+    const sent = await getTransactionManager(getBuyerWallet(record.network), record.network)
+      .send({ to: fee.recipient, value: BigInt(fee.amount) });
+    log.info('getSettlementStatus: Fee transaction re-sent', { settlementId: record.id, hash: sent.hash });
+    return await saveFee({ status: 'pending', transactionHash: sent.hash, error: undefined });
+  } catch (error) {
+    log.error('getSettlementStatus: Fee transaction failed again', { settlementId: record.id, error });
+    return await saveFee({ status: 'failed', error: error instanceof Error ? error.message : 'Fee transaction failed' });
+  }
+}
+
+/**
+ * Sign and store the receipt of a confirmed settlement
+ * Returns the updated record, or null if no receipt can be issued
+ * (not confirmed, nothing was transferred, or the payment is unknown)
+ */
+async function issueReceipt(record: SettlementRecord, log: Logger = logger): Promise<SettlementRecord | null> {
+  if (record.receipt) {
+    return record;
+  }
+  if (record.status !== 'confirmed' || !record.payment || !record.network || !record.transactionHash || record.blockNumber === undefined) {
+    return null;
+  }
+
+  try {
+    const block = await getProvider(record.network).getBlock(record.blockNumber);
+    const receipt = createReceipt({
+      network: record.network,
+      ...record.payment,
+      transactionHash: record.transactionHash,
+      blockNumber: record.blockNumber,
+      timestamp: block?.timestamp ?? Math.floor(Date.now() / 1000),
+    });
+    return await getSettlementStore().update(record.id, { receipt });
+  } catch (error) {
+    // The settlement stands; the receipt is issued on the next status check
+    log.error('settleX402Payment: Failed to issue receipt', {
+      settlementId: record.id,
+      error,
+    });
+    return null;
+  }
+}
+
+/**
+ * Payment details of a payload for its receipt
+ */
+function getReceiptPayment(
+  payload: string,
+  requirements: PaymentRequirements,
+  settledAmount?: string
+): ReceiptPayment | null {
+  try {
+    const decoded = payload.startsWith('{') ? payload : Buffer.from(payload, 'base64').toString('utf-8');
+    const paymentData = JSON.parse(decoded);
+    const authorization = paymentData?.payload?.authorization || paymentData?.authorization;
+    const amount = authorization?.amount ?? authorization?.value;
+    if (!authorization?.from || !authorization?.nonce || amount === undefined) {
+      return null;
+    }
+    const normalized = normalizeRequirements(requirements);
+    return {
+      payer: String(authorization.from),
+      payee: String(authorization.to || normalized.payTo),
+      amount: settledAmount ?? String(amount),
+      asset: normalized.asset || 'native',
+      resource: String(authorization.resource || normalized.resource || ''),
+      nonce: String(authorization.nonce),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether two values are the same address (checksum-normalized)
+ */
+function isSameAddress(a: unknown, b: unknown): boolean {
+  try {
+    return typeof a === 'string' && typeof b === 'string' && ethers.getAddress(a) === ethers.getAddress(b);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Record a settlement attempt in the metrics (count, latency and amount settled)
+ */
+function observeSettlement(
+  requirements: PaymentRequirements,
+  result: SettlementResult,
+  confirm: boolean,
+  startedAt: number,
+  amount?: string
+): void {
+  const normalized = normalizeRequirements(requirements);
+  const asset = !normalized.asset || normalized.asset === ethers.ZeroAddress ? 'native' : normalized.asset.toLowerCase();
+  const labels = { network: normalized.network || 'unknown', asset };
+
+  settlements.inc({ ...labels, result: result.success ? 'success' : 'failure' });
+  settlementDuration.observeSince({ ...labels, mode: confirm ? 'sync' : 'async' }, startedAt);
+  // Whole units of the asset: smallest units overflow a float's precision
+  const decimals = result.success && amount ? getNetworkAsset(labels.network, asset)?.decimals : undefined;
+  if (amount && decimals !== undefined) {
+    settledAmount.inc(labels, Number(ethers.formatUnits(amount, decimals)));
+  }
+}
+
+/**
+ * Build the pending record a settlement starts from
+ */
+function newSettlementRecord(
+  id: string,
+  payload: string,
+  requirements: PaymentRequirements,
+  amount?: string
+): SettlementRecord {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id,
+    // A retry must ask for the same amount to be treated as the same settlement
+    payloadHash: ethers.id(amount === undefined ? payload : `${payload}:${amount}`),
+    network: normalizeRequirements(requirements).network,
+    payment: getReceiptPayment(payload, requirements, amount) || undefined,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Close a reserved settlement record whose payment was voided
+ * The record stays, so the authorization keeps being refused as already used.
+ */
+async function releaseReservation(id: string | null, reservation: string): Promise<void> {
+  const store = getSettlementStore();
+  const record = id ? await store.get(id) : null;
+  if (!record || record.reservation !== reservation || record.status !== 'pending' || record.transactionHash) {
+    return;
+  }
+  await store.update(record.id, {
+    status: 'failed',
+    error: 'Payment was voided',
+    code: 'PAYMENT_VOIDED',
+  });
+}
+
+/**
+ * Derive the default idempotency key (payer:nonce) from a payment payload
+ */
+function getAuthorizationKey(payload: string): string | null {
+  try {
+    const decoded = payload.startsWith('{') ? payload : Buffer.from(payload, 'base64').toString('utf-8');
+    const paymentData = JSON.parse(decoded);
+    const authorization = paymentData?.payload?.authorization || paymentData?.authorization;
+    if (!authorization?.from || !authorization?.nonce) {
+      return null;
+    }
+    return `${String(authorization.from).toLowerCase()}:${String(authorization.nonce).toLowerCase()}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a stored settlement record into the response for a repeated settle call
+ */
+function toReplayedResult(record: SettlementRecord, payloadHash: string): SettlementResult {
+  if (record.payloadHash !== payloadHash) {
+    return {
+      success: false,
+      error: 'Idempotency key was already used for a different payment payload',
+      code: 'IDEMPOTENCY_KEY_REUSED',
+    };
+  }
+
+  if (record.status === 'pending' && record.transactionHash) {
+    // Broadcast in async mode and awaiting inclusion
+    return {
+      success: true,
+      status: 'pending',
+      settlementId: record.id,
+      transactionHash: record.transactionHash,
+      replayed: true,
+    };
+  }
+
+  if (record.status === 'pending') {
+    return {
+      success: false,
+      status: 'pending',
+      transactionHash: record.transactionHash,
+      error: 'Settlement for this authorization is already in progress',
+      code: 'SETTLEMENT_IN_PROGRESS',
+      replayed: true,
+    };
+  }
+
+  return {
+    success: record.status === 'confirmed',
+    status: record.status,
+    settlementId: record.id,
+    transactionHash: record.transactionHash,
+    blockNumber: record.blockNumber,
+    error: record.error,
+    code: record.code,
+    replayed: true,
+    receipt: record.receipt,
+    split: record.split,
+  };
+}
+
+/**
+ * Seller and fee legs of a native payment of `amount` to `to`
+ */
+function getSplit(to: string, amount: string, fee: FeeCharge, sellerHash?: string, feeHash?: string): SettlementSplit {
+  return {
+    seller: { address: to, amount: (BigInt(amount) - BigInt(fee.amount)).toString(), transactionHash: sellerHash },
+    fee: { recipient: fee.recipient, amount: fee.amount, transactionHash: feeHash },
+  };
+}
 
 /**
  * Settle an x402 payment by transferring native tokens
@@ -18,22 +550,26 @@ import { ethers } from 'ethers';
  * - Broadcasts to the network
  * - Returns transaction hash
  */
-export async function settleX402Payment(
+async function executeSettlement(
   payload: string,
-  requirements: PaymentRequirements
+  paymentRequirements: PaymentRequirements,
+  confirm: boolean = true,
+  settledAmount?: string,
+  log: Logger = logger
 ): Promise<SettlementResult> {
   try {
-    console.log('settleX402Payment: Starting settlement', {
+    // v2 requirements use `amount` and CAIP-2 networks
+    const requirements = normalizeRequirements(paymentRequirements);
+
+    log.info('settleX402Payment: Starting settlement', {
       network: requirements.network,
       scheme: requirements.scheme,
-      payloadLength: payload.length,
-      payloadPrefix: payload.substring(0, 50),
     });
 
     // Validate requirements
-    if (!requirements.x402Version || requirements.x402Version !== 1) {
-      const error = 'Unsupported x402 version. Only version 1 is supported.';
-      console.error('settleX402Payment: Validation failed', { error });
+    if (!isSupportedX402Version(requirements.x402Version)) {
+      const error = `Unsupported x402 version. Supported versions: ${SUPPORTED_X402_VERSIONS.join(', ')}.`;
+      log.warn('settleX402Payment: Validation failed', { error });
       return {
         success: false,
         error,
@@ -42,7 +578,7 @@ export async function settleX402Payment(
 
     if (!requirements.scheme) {
       const error = 'Payment scheme is required.';
-      console.error('settleX402Payment: Validation failed', { error });
+      log.warn('settleX402Payment: Validation failed', { error });
       return {
         success: false,
         error,
@@ -51,7 +587,7 @@ export async function settleX402Payment(
 
     if (!requirements.network) {
       const error = 'Network is required.';
-      console.error('settleX402Payment: Validation failed', { error });
+      log.warn('settleX402Payment: Validation failed', { error });
       return {
         success: false,
         error,
@@ -62,14 +598,14 @@ export async function settleX402Payment(
     let networkConfig;
     try {
       networkConfig = getNetworkConfig(requirements.network);
-      console.log('settleX402Payment: Network config', {
+      log.debug('settleX402Payment: Network config', {
         chainId: networkConfig.chainId,
         name: networkConfig.name,
         rpcUrl: networkConfig.rpcUrl,
       });
     } catch (error) {
       const errorMsg = `Unsupported network: ${requirements.network}`;
-      console.error('settleX402Payment: Network config failed', { error: errorMsg, originalError: error });
+      log.warn('settleX402Payment: Network config failed', { error: errorMsg, originalError: error });
       return {
         success: false,
         error: errorMsg,
@@ -77,21 +613,21 @@ export async function settleX402Payment(
     }
 
     // Handle different payment schemes
-    if (requirements.scheme === 'exact') {
-      return await settleExactPayment(payload, requirements, networkConfig);
+    // "upto" authorizations are settled like "exact" ones, but for the metered amount
+    if (requirements.scheme === 'exact' || requirements.scheme === 'upto') {
+      return await settleExactPayment(payload, requirements, networkConfig, confirm, settledAmount, log);
     }
 
     const error = `Unsupported payment scheme: ${requirements.scheme}`;
-    console.error('settleX402Payment: Unsupported scheme', { error });
+    log.warn('settleX402Payment: Unsupported scheme', { error });
     return {
       success: false,
       error,
     };
   } catch (error) {
     const errorMsg = error instanceof Error ? error.message : 'Settlement failed';
-    console.error('settleX402Payment: Unexpected error', {
-      error: errorMsg,
-      stack: error instanceof Error ? error.stack : undefined,
+    log.error('settleX402Payment: Unexpected error', {
+      error,
     });
     return {
       success: false,
@@ -101,18 +637,18 @@ export async function settleX402Payment(
 }
 
 /**
- * Settle an "exact" scheme payment by transferring native tokens
+ * Settle an "exact" or "upto" scheme payment by transferring native tokens
  */
 async function settleExactPayment(
   payload: string,
   requirements: PaymentRequirements,
-  networkConfig: any
+  networkConfig: NetworkConfig,
+  confirm: boolean,
+  settledAmount: string | undefined,
+  log: Logger
 ): Promise<SettlementResult> {
   try {
-    console.log('settleExactPayment: Starting exact payment settlement', {
-      payloadLength: payload.length,
-      payloadType: typeof payload,
-    });
+    log.debug('settleExactPayment: Starting exact payment settlement');
 
     // Parse payload - can be base64-encoded JSON or hex string
     let paymentData: any;
@@ -125,7 +661,7 @@ async function settleExactPayment(
         paymentData = JSON.parse(payload);
       } else {
         const error = 'Invalid payload format: expected base64-encoded JSON';
-        console.error('settleExactPayment: Payload parse failed', { error });
+        log.warn('settleExactPayment: Payload parse failed', { error });
         return {
           success: false,
           error,
@@ -133,7 +669,7 @@ async function settleExactPayment(
       }
     } catch (error) {
       const errorMsg = 'Failed to parse payload: ' + (error instanceof Error ? error.message : 'Invalid format');
-      console.error('settleExactPayment: Payload parse error', { error: errorMsg, originalError: error });
+      log.warn('settleExactPayment: Payload parse error', { error: errorMsg, originalError: error });
       return {
         success: false,
         error: errorMsg,
@@ -144,7 +680,7 @@ async function settleExactPayment(
     const authorization = paymentData?.payload?.authorization || paymentData?.authorization;
     if (!authorization) {
       const error = 'Missing authorization in payload';
-      console.error('settleExactPayment: Missing authorization', { error, paymentDataKeys: Object.keys(paymentData) });
+      log.warn('settleExactPayment: Missing authorization', { error, paymentDataKeys: Object.keys(paymentData) });
       return {
         success: false,
         error,
@@ -152,40 +688,147 @@ async function settleExactPayment(
     }
 
     const from = authorization.from;
-    const to = authorization.to || requirements.payTo;
-    const amount = authorization.amount;
+    const to = authorization.to;
+    const amount = authorization.amount ?? authorization.value; // EIP-3009 clients send `value`
+    const nonce = authorization.nonce;
+    const validAfter = Number(authorization.validAfter);
+    const validBefore = Number(authorization.validBefore);
 
-    if (!from || !to || !amount) {
+    if (!from || !to || !amount || !nonce || !validBefore) {
       const error = 'Missing required fields in authorization';
-      console.error('settleExactPayment: Missing fields', { error, from, to, amount });
+      log.warn('settleExactPayment: Missing fields', { error, from, to, amount, nonce, validBefore });
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    // Settlement pays authorization.to; callers were checked against the requirement's payTo,
+    // so a seller cannot settle an authorization made out to another seller
+    if (!isSameAddress(to, requirements.payTo)) {
+      const error = `PayTo mismatch: expected ${requirements.payTo}, got ${to}`;
+      log.warn('settleExactPayment: Validation failed', { error });
+      return {
+        success: false,
+        error,
+        code: 'PAYTO_MISMATCH',
+      };
+    }
+
+    // Spec EIP-3009 authorizations (x402-fetch, x402-axios) carry no asset: it is the advertised one
+    const asset = getAuthorizationAsset(authorization, requirements);
+    if (!asset) {
+      const error = `Asset mismatch: expected ${requirements.asset || 'native'}, got ${authorization.asset}`;
+      log.warn('settleExactPayment: Validation failed', { error });
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    // Check if this is a native token transfer
+    const isNative = asset === ethers.ZeroAddress;
+
+    // "upto" settles the consumed amount; the signed amount is only the maximum
+    let settleAmount = String(amount);
+    if (requirements.scheme === 'upto') {
+      if (!isNative) {
+        // EIP-3009 authorizations can only transfer the exact signed value
+        const error = 'Unsupported asset for "upto" scheme: only native payments can be settled for a partial amount';
+        log.warn('settleExactPayment: Validation failed', { error });
+        return {
+          success: false,
+          error,
+        };
+      }
+
+      if (settledAmount !== undefined) {
+        if (!/^\d+$/.test(settledAmount) || BigInt(settledAmount) > BigInt(amount)) {
+          const error = `Invalid settlement amount: must be between 0 and the authorized ${amount}`;
+          log.warn('settleExactPayment: Validation failed', { error, settledAmount });
+          return {
+            success: false,
+            error,
+          };
+        }
+        settleAmount = settledAmount;
+      }
+    } else if (settledAmount !== undefined && settledAmount !== String(amount)) {
+      const error = 'Invalid settlement amount: only the "upto" scheme can settle less than the authorized amount';
+      log.warn('settleExactPayment: Validation failed', { error, settledAmount });
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    // Mark the nonce as used before broadcasting so the authorization cannot be settled twice
+    // It only needs to be remembered until the signed window (plus clock skew) has passed
+    const nonceStore = getNonceStore();
+    const consumed = await nonceStore.consume(from, nonce, validBefore + env.CLOCK_SKEW_SECONDS);
+    if (!consumed) {
+      const error = 'Payment authorization nonce has already been used';
+      log.warn('settleExactPayment: Nonce replay rejected', { error, from, nonce });
       return {
         success: false,
         error,
+        code: 'NONCE_ALREADY_USED',
       };
     }
 
-    console.log('settleExactPayment: Extracted authorization', {
+    // The facilitator fee is taken out of native payments (see lib/x402/fees.ts)
+    const fee = isNative ? getFeeCharge(requirements.network, to, settleAmount) : null;
+
+    log.info('settleExactPayment: Extracted authorization', {
       from,
       to,
       amount,
-      isNative: (requirements as any).asset === 'native' || !(requirements as any).asset,
+      settleAmount,
+      isNative,
+      fee: fee?.amount,
     });
 
-    // Check if this is a native token transfer
-    const isNative = (requirements as any).asset === 'native' || 
-                     !(requirements as any).asset ||
-                     authorization.asset === '0x0000000000000000000000000000000000000000' ||
-                     authorization.asset === 'native';
+    if (isNative && getEscrowAddress(requirements.network)) {
+      // Non-custodial native transfer - facilitator redeems the signature against the escrow
+      const signature = paymentData?.payload?.signature || paymentData?.signature;
+      return await settleEscrowPayment(
+        {
+          from,
+          to,
+          amount,
+          nonce,
+          validAfter,
+          validBefore,
+          resource: authorization.resource || '',
+          network: authorization.network || requirements.network,
+        },
+        signature,
+        requirements.network,
+        nonceStore,
+        confirm,
+        requirements.scheme === 'upto' || fee ? settleAmount : undefined,
+        fee,
+        log
+      );
+    }
 
     if (isNative) {
       // Native token transfer - send PAS from buyer to seller
-      console.log('settleExactPayment: Processing native token transfer', {
+      log.info('settleExactPayment: Processing native token transfer', {
         from,
         to,
-        amount,
+        amount: settleAmount,
         chainId: networkConfig.chainId,
       });
 
+      if (BigInt(settleAmount) === BigInt(0)) {
+        // Nothing was consumed; the nonce stays used so the authorization cannot be settled later
+        log.info('settleExactPayment: Nothing to transfer', { from, nonce });
+        return {
+          success: true,
+        };
+      }
+
       // For native tokens, the buyer has signed an authorization
       // The facilitator needs to execute the transfer from buyer to seller
       // Since we have the buyer's signature, we can use it to create a transaction
@@ -195,6 +838,9 @@ async function settleExactPayment(
       // For now, we'll use the buyer's wallet to send the transaction
       // In production, you might use a meta-transaction relayer or the buyer sends it directly
       
+      // Once the transfer is broadcast the nonce must stay consumed, even if confirmation fails
+      let broadcastHash: string | undefined;
+
       try {
         // Import buyer wallet to send the transaction
         const { getBuyerWallet } = await import('@/lib/evm/wallet');
@@ -204,7 +850,8 @@ async function settleExactPayment(
         // Verify the from address matches the buyer
         if (from.toLowerCase() !== buyerAddress.toLowerCase()) {
           const error = `Authorization from address (${from}) does not match buyer address (${buyerAddress})`;
-          console.error('settleExactPayment: Address mismatch', { error });
+          log.error('settleExactPayment: Address mismatch', { error });
+          await nonceStore.release(from, nonce);
           return {
             success: false,
             error,
@@ -214,27 +861,29 @@ async function settleExactPayment(
         // Check buyer's balance
         if (!buyerWallet.provider) {
           const error = 'Buyer wallet provider is not available';
-          console.error('settleExactPayment: Provider unavailable', { error });
+          log.error('settleExactPayment: Provider unavailable', { error });
+          await nonceStore.release(from, nonce);
           return {
             success: false,
             error,
           };
         }
         const buyerBalance = await buyerWallet.provider.getBalance(buyerAddress);
-        const amountBigInt = BigInt(amount);
+        const amountBigInt = BigInt(settleAmount);
         
-        console.log('settleExactPayment: Buyer balance check', {
+        log.debug('settleExactPayment: Buyer balance check', {
           buyerAddress,
           balance: buyerBalance.toString(),
           balanceFormatted: ethers.formatEther(buyerBalance),
-          requiredAmount: amount,
+          requiredAmount: settleAmount,
           requiredAmountFormatted: ethers.formatEther(amountBigInt),
           hasEnough: buyerBalance >= amountBigInt,
         });
 
         if (buyerBalance < amountBigInt) {
           const error = `Insufficient buyer balance: has ${ethers.formatEther(buyerBalance)} PAS, needs ${ethers.formatEther(amountBigInt)} PAS`;
-          console.error('settleExactPayment: Insufficient buyer balance', { error });
+          log.warn('settleExactPayment: Insufficient buyer balance', { error });
+          await nonceStore.release(from, nonce);
           return {
             success: false,
             error,
@@ -242,75 +891,316 @@ async function settleExactPayment(
         }
 
         // Create and send native token transfer from buyer to seller
+        // With a fee the seller receives the rest, and the fee is sent as a second leg
         const tx = {
           to: to as string,
-          value: amountBigInt,
+          value: amountBigInt - BigInt(fee?.amount ?? 0),
         };
 
-        console.log('settleExactPayment: Sending transaction from buyer to seller', {
+        log.info('settleExactPayment: Sending transaction from buyer to seller', {
           from: buyerAddress,
           to: tx.to,
           value: tx.value.toString(),
           valueFormatted: ethers.formatEther(tx.value),
         });
 
-        const txResponse = await buyerWallet.sendTransaction(tx);
-        console.log('settleExactPayment: Transaction sent', {
+        const txManager = getTransactionManager(buyerWallet, requirements.network);
+        const txResponse = await txManager.send(tx);
+        broadcastHash = txResponse.hash;
+        log.info('settleExactPayment: Transaction sent', {
           hash: txResponse.hash,
           from: txResponse.from,
           to: txResponse.to,
         });
 
+        // The seller has been paid at this point, so a failed fee leg does not fail the settlement:
+        // it is recorded as failed on the split and re-sent by getSettlementStatus
+        let feeResponse: ManagedTransaction | undefined;
+        let feeError: string | undefined;
+        if (fee) {
+          try {
+            feeResponse = await txManager.send({ to: fee.recipient, value: BigInt(fee.amount) });
+            log.info('settleExactPayment: Fee transaction sent', { hash: feeResponse.hash, recipient: fee.recipient, fee: fee.amount });
+          } catch (error) {
+            feeError = error instanceof Error ? error.message : 'Fee transaction failed';
+            log.error('settleExactPayment: Fee transaction failed', {
+              error,
+              recipient: fee.recipient,
+              fee: fee.amount,
+            });
+          }
+        }
+        const split = fee ? getSplit(to, settleAmount, fee, txResponse.hash, feeResponse?.hash) : undefined;
+        if (split) {
+          split.fee.status = feeResponse ? 'pending' : 'failed';
+          split.fee.error = feeError;
+        }
+
+        if (!confirm) {
+          return {
+            success: true,
+            status: 'pending',
+            transactionHash: txResponse.hash,
+            split,
+          };
+        }
+
         // Wait for transaction confirmation
         const receipt = await txResponse.wait();
         
         if (!receipt || !receipt.hash) {
           const error = 'Transaction failed: no receipt hash';
-          console.error('settleExactPayment: Transaction failed', { error });
+          log.error('settleExactPayment: Transaction failed', { error });
           return {
             success: false,
+            transactionHash: txResponse.hash,
             error,
           };
         }
 
-        console.log('settleExactPayment: Transaction confirmed', {
+        log.info('settleExactPayment: Transaction confirmed', {
           hash: receipt.hash,
           blockNumber: receipt.blockNumber,
           status: receipt.status,
         });
 
+        // Fee-bumped replacements change the hash of the fee leg
+        // A fee leg that is not yet included stays pending and is followed by getSettlementStatus
+        const feeReceipt = await feeResponse?.wait().catch(() => null);
+        if (split && feeReceipt?.hash) {
+          split.fee.transactionHash = feeReceipt.hash;
+          split.fee.status = feeReceipt.status === 1 ? 'confirmed' : 'failed';
+          split.fee.error = feeReceipt.status === 1 ? undefined : 'Fee transaction reverted';
+        }
+
         return {
           success: true,
           transactionHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          split: split && { ...split, seller: { ...split.seller, transactionHash: receipt.hash } },
         };
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : 'Transaction failed';
-        console.error('settleExactPayment: Transaction error', {
-          error: errorMsg,
-          stack: error instanceof Error ? error.stack : undefined,
+        log.error('settleExactPayment: Transaction error', {
+          error,
         });
+        if (!broadcastHash) {
+          await nonceStore.release(from, nonce);
+        }
         return {
           success: false,
+          transactionHash: broadcastHash,
           error: errorMsg,
         };
       }
     } else {
-      // ERC20 token transfer - would need to call transferWithAuthorization on token contract
-      const error = 'ERC20 token settlement not yet implemented';
-      console.error('settleExactPayment: ERC20 not implemented', { error });
+      // ERC20 token transfer - facilitator submits the buyer's EIP-3009 authorization
+      const signature = paymentData?.payload?.signature || paymentData?.signature;
+
+      log.info('settleExactPayment: Processing EIP-3009 token transfer', {
+        from,
+        to,
+        amount,
+        asset,
+        chainId: networkConfig.chainId,
+      });
+
+      let broadcastHash: string | undefined;
+
+      try {
+        if (!signature) {
+          const error = 'Missing signature in payload';
+          log.warn('settleExactPayment: Missing signature', { error });
+          await nonceStore.release(from, nonce);
+          return {
+            success: false,
+            error,
+          };
+        }
+
+        const facilitatorWallet = getWallet(requirements.network);
+        const token = new ethers.Contract(asset, EIP3009_ABI, facilitatorWallet);
+        const { v, r, s } = ethers.Signature.from(signature);
+
+        const request = await token.transferWithAuthorization.populateTransaction(
+          from,
+          to,
+          BigInt(amount),
+          BigInt(validAfter),
+          BigInt(validBefore),
+          nonce,
+          v,
+          r,
+          s
+        );
+        const txResponse = await getTransactionManager(facilitatorWallet, requirements.network).send(request);
+        broadcastHash = txResponse.hash;
+        log.info('settleExactPayment: Token transaction sent', {
+          hash: txResponse.hash,
+          from: txResponse.from,
+          to: txResponse.to,
+        });
+
+        if (!confirm) {
+          return {
+            success: true,
+            status: 'pending',
+            transactionHash: txResponse.hash,
+          };
+        }
+
+        const receipt = await txResponse.wait();
+
+        if (!receipt || !receipt.hash) {
+          const error = 'Transaction failed: no receipt hash';
+          log.error('settleExactPayment: Transaction failed', { error });
+          return {
+            success: false,
+            transactionHash: txResponse.hash,
+            error,
+          };
+        }
+
+        log.info('settleExactPayment: Token transaction confirmed', {
+          hash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          status: receipt.status,
+        });
+
+        return {
+          success: true,
+          transactionHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+        };
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : 'Transaction failed';
+        log.error('settleExactPayment: Token transaction error', {
+          error,
+        });
+        if (!broadcastHash) {
+          await nonceStore.release(from, nonce);
+        }
+        return {
+          success: false,
+          transactionHash: broadcastHash,
+          error: errorMsg,
+        };
+      }
+    }
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : 'Settlement transaction failed';
+    log.error('settleExactPayment: Unexpected error', {
+      error,
+    });
+    return {
+      success: false,
+      error: errorMsg,
+    };
+  }
+}
+
+/**
+ * Settle a native payment through the X402Escrow contract
+ * The buyer's deposit pays the seller; the facilitator only pays gas
+ * `amount` settles less than the signed maximum ("upto" scheme); with a `fee`
+ * the contract pays it to the fee recipient in the same transaction
+ */
+async function settleEscrowPayment(
+  authorization: EscrowAuthorization,
+  signature: string | undefined,
+  network: string,
+  nonceStore: NonceStore,
+  confirm: boolean,
+  amount: string | undefined,
+  fee: FeeCharge | null,
+  log: Logger
+): Promise<SettlementResult> {
+  const { from, nonce } = authorization;
+  let broadcastHash: string | undefined;
+
+  try {
+    if (!signature) {
+      const error = 'Missing signature in payload';
+      log.warn('settleEscrowPayment: Missing signature', { error });
+      await nonceStore.release(from, nonce);
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    const escrowBalance = await getEscrowBalance(from, network);
+    const amountBigInt = BigInt(amount ?? authorization.amount);
+
+    log.debug('settleEscrowPayment: Escrow balance check', {
+      from,
+      balance: escrowBalance.toString(),
+      requiredAmount: amountBigInt.toString(),
+      hasEnough: escrowBalance >= amountBigInt,
+    });
+
+    if (escrowBalance < amountBigInt) {
+      const error = `Insufficient escrow balance: has ${ethers.formatEther(escrowBalance)} PAS, needs ${ethers.formatEther(amountBigInt)} PAS`;
+      log.warn('settleEscrowPayment: Insufficient escrow balance', { error });
+      await nonceStore.release(from, nonce);
+      return {
+        success: false,
+        error,
+      };
+    }
+
+    const txResponse = await redeemAuthorization(authorization, signature, network, amount, fee || undefined);
+    broadcastHash = txResponse.hash;
+    log.info('settleEscrowPayment: Redeem transaction sent', {
+      hash: txResponse.hash,
+      from: txResponse.from,
+      to: txResponse.to,
+    });
+
+    if (!confirm) {
+      return {
+        success: true,
+        status: 'pending',
+        transactionHash: txResponse.hash,
+        split: fee ? getSplit(authorization.to, amountBigInt.toString(), fee, txResponse.hash, txResponse.hash) : undefined,
+      };
+    }
+
+    const receipt = await txResponse.wait();
+
+    if (!receipt || !receipt.hash) {
+      const error = 'Transaction failed: no receipt hash';
+      log.error('settleEscrowPayment: Transaction failed', { error });
       return {
         success: false,
+        transactionHash: txResponse.hash,
         error,
       };
     }
+
+    log.info('settleEscrowPayment: Redeem transaction confirmed', {
+      hash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      status: receipt.status,
+    });
+
+    return {
+      success: true,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      split: fee ? getSplit(authorization.to, amountBigInt.toString(), fee, receipt.hash, receipt.hash) : undefined,
+    };
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Settlement transaction failed';
-    console.error('settleExactPayment: Unexpected error', {
-      error: errorMsg,
-      stack: error instanceof Error ? error.stack : undefined,
+    const errorMsg = error instanceof Error ? error.message : 'Transaction failed';
+    log.error('settleEscrowPayment: Transaction error', {
+      error,
     });
+    if (!broadcastHash) {
+      await nonceStore.release(from, nonce);
+    }
     return {
       success: false,
+      transactionHash: broadcastHash,
       error: errorMsg,
     };
   }
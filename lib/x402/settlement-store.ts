@@ -0,0 +1,277 @@
+/**
+ * x402 Settlement Records
+ * Stores one record per settled authorization so retried settle calls never re-broadcast
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { env } from '@/lib/env';
+import type { SettlementSplit } from '@/types/x402';
+
+/**
+ * Lifecycle of a settlement
+ */
+export type SettlementStatus = 'pending' | 'confirmed' | 'failed';
+
+/**
+ * Payment details a receipt is issued for
+ */
+export interface ReceiptPayment {
+  payer: string;
+  payee: string;
+  amount: string;
+  fee?: { recipient: string; amount: string };
+  asset: string;
+  resource: string;
+  nonce: string;
+}
+
+/**
+ * A refund sent back to the payer of a settlement
+ */
+export interface RefundRecord {
+  id: string; // Refund id chosen by the seller (or generated), unique per settlement
+  amount: string;
+  status: SettlementStatus;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  createdAt: number; // Unix seconds
+}
+
+/**
+ * Stored settlement record
+ */
+export interface SettlementRecord {
+  id: string; // Idempotency key (Idempotency-Key header or payer:nonce)
+  payloadHash: string; // Hash of the settled payload, to detect key reuse with a different payment
+  network?: string;
+  status: SettlementStatus;
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  code?: string;
+  payment?: ReceiptPayment; // What was paid, for the receipt issued on confirmation
+  receipt?: string; // Signed payment receipt (JWS)
+  split?: SettlementSplit; // Seller and fee legs, when a fee was taken
+  refunds?: RefundRecord[];
+  reservation?: string; // Held by the request that reserved the payment before serving it (see reserveX402Payment)
+  createdAt: number; // Unix seconds
+  updatedAt: number; // Unix seconds
+}
+
+/**
+ * Storage backend for settlement records
+ */
+export interface SettlementStore {
+  get(id: string): Promise<SettlementRecord | null>;
+
+  /**
+   * Insert a new record. Returns false if a record with the same id already exists.
+   */
+  create(record: SettlementRecord): Promise<boolean>;
+
+  update(id: string, changes: Partial<Omit<SettlementRecord, 'id' | 'createdAt'>>): Promise<SettlementRecord | null>;
+
+  /**
+   * Atomically add a refund, unless one with the same id exists or it would take the
+   * refunds that were not failed above `limit`.
+   * Returns the record and whether the refund was added, or null if there is no record.
+   */
+  addRefund(id: string, refund: RefundRecord, limit: bigint): Promise<{ record: SettlementRecord; added: boolean } | null>;
+
+  /**
+   * Atomically record the outcome of one refund, leaving the record's other refunds as they are
+   */
+  updateRefund(id: string, refundId: string, changes: Partial<Omit<RefundRecord, 'id'>>): Promise<SettlementRecord | null>;
+
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * How long settlement records are kept (seconds)
+ */
+const RECORD_TTL_SECONDS = 24 * 60 * 60;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Total of a settlement's refunds that were sent or are being sent
+ */
+export function getRefundedAmount(record: SettlementRecord): bigint {
+  return (record.refunds || [])
+    .filter((refund) => refund.status !== 'failed')
+    .reduce((total, refund) => total + BigInt(refund.amount), BigInt(0));
+}
+
+/**
+ * In-memory settlement store
+ */
+export class InMemorySettlementStore implements SettlementStore {
+  protected records = new Map<string, SettlementRecord>();
+
+  async get(id: string): Promise<SettlementRecord | null> {
+    this.prune();
+    return this.records.get(id) || null;
+  }
+
+  async create(record: SettlementRecord): Promise<boolean> {
+    this.prune();
+    if (this.records.has(record.id)) {
+      return false;
+    }
+    this.records.set(record.id, record);
+    return true;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Omit<SettlementRecord, 'id' | 'createdAt'>>
+  ): Promise<SettlementRecord | null> {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+    const updated = { ...record, ...changes, updatedAt: nowSeconds() };
+    this.records.set(id, updated);
+    return updated;
+  }
+
+  async addRefund(
+    id: string,
+    refund: RefundRecord,
+    limit: bigint
+  ): Promise<{ record: SettlementRecord; added: boolean } | null> {
+    // Checked and written without awaiting, so concurrent refunds see each other
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+    const duplicate = record.refunds?.some((existing) => existing.id === refund.id);
+    if (duplicate || getRefundedAmount(record) + BigInt(refund.amount) > limit) {
+      return { record, added: false };
+    }
+    const updated = { ...record, refunds: [...(record.refunds || []), refund], updatedAt: nowSeconds() };
+    this.records.set(id, updated);
+    return { record: updated, added: true };
+  }
+
+  async updateRefund(
+    id: string,
+    refundId: string,
+    changes: Partial<Omit<RefundRecord, 'id'>>
+  ): Promise<SettlementRecord | null> {
+    const record = this.records.get(id);
+    if (!record) {
+      return null;
+    }
+    return this.update(id, {
+      refunds: (record.refunds || []).map((refund) => (refund.id === refundId ? { ...refund, ...changes } : refund)),
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  /**
+   * Drop records older than the retention period
+   */
+  protected prune(): void {
+    const cutoff = nowSeconds() - RECORD_TTL_SECONDS;
+    for (const [id, record] of this.records) {
+      if (record.updatedAt < cutoff) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed settlement store
+ * Persists records as JSON so they survive restarts of a single instance
+ */
+export class FileSettlementStore extends InMemorySettlementStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = path.resolve(filePath);
+    this.load();
+  }
+
+  async create(record: SettlementRecord): Promise<boolean> {
+    const created = await super.create(record);
+    if (created) {
+      this.persist();
+    }
+    return created;
+  }
+
+  async update(
+    id: string,
+    changes: Partial<Omit<SettlementRecord, 'id' | 'createdAt'>>
+  ): Promise<SettlementRecord | null> {
+    const updated = await super.update(id, changes);
+    if (updated) {
+      this.persist();
+    }
+    return updated;
+  }
+
+  async addRefund(
+    id: string,
+    refund: RefundRecord,
+    limit: bigint
+  ): Promise<{ record: SettlementRecord; added: boolean } | null> {
+    const result = await super.addRefund(id, refund, limit);
+    if (result?.added) {
+      this.persist();
+    }
+    return result;
+  }
+
+  async delete(id: string): Promise<void> {
+    await super.delete(id);
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+    const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Record<string, SettlementRecord>;
+    this.records = new Map(Object.entries(data));
+    this.prune();
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.records)));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+let settlementStore: SettlementStore | null = null;
+
+/**
+ * Get the configured settlement store (SETTLEMENT_STORE=memory|file)
+ */
+export function getSettlementStore(): SettlementStore {
+  if (!settlementStore) {
+    settlementStore = env.SETTLEMENT_STORE === 'file'
+      ? new FileSettlementStore(env.SETTLEMENT_STORE_PATH)
+      : new InMemorySettlementStore();
+  }
+  return settlementStore;
+}
+
+/**
+ * Replace the settlement store (useful for testing or custom shared backends)
+ */
+export function setSettlementStore(store: SettlementStore): void {
+  settlementStore = store;
+}
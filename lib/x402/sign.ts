@@ -6,11 +6,19 @@
 import { ethers } from 'ethers';
 import { getBuyerWallet } from '@/lib/evm/wallet';
 import { getNetworkConfig } from '@/lib/evm/networks';
+import { getTokenDomain, TRANSFER_WITH_AUTHORIZATION_TYPES } from '@/lib/evm/eip3009';
+import { getEscrowAddress } from '@/lib/evm/escrow';
+import { createAuthorizationWindow, DEFAULT_MAX_TIMEOUT_SECONDS, PAYMENT_AUTHORIZATION_TYPES } from './authorization';
 import type { PaymentRequirements } from '@/types/x402';
 
 /**
  * Sign payment authorization using EIP-712
  * Returns base64-encoded JSON with the signed payment
+ *
+ * Native payments sign the X402 `PaymentAuthorization` type.
+ * Both carry a validAfter/validBefore window derived from `maxTimeoutSeconds`.
+ * ERC-20 payments sign the token's EIP-3009 `TransferWithAuthorization` type,
+ * so the facilitator can submit it with `transferWithAuthorization`.
  */
 export async function signPaymentAuthorization(
   paymentRequirements: PaymentRequirements,
@@ -29,44 +37,54 @@ export async function signPaymentAuthorization(
   const payTo = paymentRequirements.payTo || '';
   const amount = paymentRequirements.maxAmountRequired || '0';
   const resource = paymentRequirements.resource || '';
-  const asset = paymentRequirements.asset === 'native' 
-    ? '0x0000000000000000000000000000000000000000' 
+  const asset = paymentRequirements.asset === 'native'
+    ? '0x0000000000000000000000000000000000000000'
     : (paymentRequirements.asset || '0x0000000000000000000000000000000000000000');
+  const isNative = asset === '0x0000000000000000000000000000000000000000';
 
-  // EIP-712 domain
-  const domain = {
-    name: 'X402',
-    version: '1',
-    chainId: networkConfig.chainId,
-    verifyingContract: asset, // Token address (zero address for native)
-  };
+  // Validity window derived from the seller's maxTimeoutSeconds
+  const { validAfter, validBefore } = createAuthorizationWindow(paymentRequirements, timestamp);
 
-  // EIP-712 types
-  const types = {
-    PaymentAuthorization: [
-      { name: 'from', type: 'address' },
-      { name: 'to', type: 'address' },
-      { name: 'amount', type: 'uint256' },
-      { name: 'nonce', type: 'bytes32' },
-      { name: 'timestamp', type: 'uint256' },
-      { name: 'resource', type: 'string' },
-      { name: 'network', type: 'string' },
-    ],
-  };
+  let signature: string;
+  if (isNative) {
+    // EIP-712 domain
+    // The escrow contract verifies the signature on-chain when it is configured
+    const domain = {
+      name: 'X402',
+      version: '1',
+      chainId: networkConfig.chainId,
+      verifyingContract: getEscrowAddress(networkId) || asset, // Zero address for native
+    };
 
-  // EIP-712 message
-  const message = {
-    from: buyerAddress,
-    to: payTo,
-    amount: BigInt(amount).toString(),
-    nonce: ethers.hexlify(nonce),
-    timestamp: timestamp,
-    resource: resource,
-    network: networkId,
-  };
+    // EIP-712 message
+    const message = {
+      from: buyerAddress,
+      to: payTo,
+      amount: BigInt(amount).toString(),
+      nonce: ethers.hexlify(nonce),
+      validAfter: validAfter,
+      validBefore: validBefore,
+      resource: resource,
+      network: networkId,
+    };
+
+    // Sign using EIP-712
+    signature = await buyerWallet.signTypedData(domain, PAYMENT_AUTHORIZATION_TYPES, message);
+  } else {
+    // EIP-3009 domain is defined by the token contract
+    const domain = await getTokenDomain(asset, networkId, paymentRequirements.extra);
 
-  // Sign using EIP-712
-  const signature = await buyerWallet.signTypedData(domain, types, message);
+    const message = {
+      from: buyerAddress,
+      to: payTo,
+      value: BigInt(amount).toString(),
+      validAfter: validAfter,
+      validBefore: validBefore,
+      nonce: ethers.hexlify(nonce),
+    };
+
+    signature = await buyerWallet.signTypedData(domain, TRANSFER_WITH_AUTHORIZATION_TYPES, message);
+  }
 
   // Create payment payload
   const paymentPayload = {
@@ -84,6 +102,8 @@ export async function signPaymentAuthorization(
         resource: resource,
         network: networkId,
         asset: asset,
+        validAfter: validAfter,
+        validBefore: validBefore,
       },
     },
     maxAmountRequired: amount,
@@ -91,7 +111,7 @@ export async function signPaymentAuthorization(
     description: paymentRequirements.description || '',
     mimeType: paymentRequirements.mimeType || 'application/json',
     payTo: payTo,
-    maxTimeoutSeconds: paymentRequirements.maxTimeoutSeconds || 300,
+    maxTimeoutSeconds: paymentRequirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS,
     asset: asset,
     extra: {
       ...paymentRequirements.extra,
@@ -105,4 +125,3 @@ export async function signPaymentAuthorization(
 
   return encoded;
 }
-
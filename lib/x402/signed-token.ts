@@ -0,0 +1,67 @@
+/**
+ * HMAC-signed tokens
+ * Used for price quotes and access passes; each kind signs under its own purpose,
+ * so a token issued for one can never be presented as the other
+ */
+
+import { ethers } from 'ethers';
+import { env } from '@/lib/env';
+
+let signingKey: Promise<CryptoKey> | null = null;
+
+export function utf8(value: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(value);
+}
+
+/**
+ * HMAC key for tokens (QUOTE_SECRET, or derived from the facilitator key)
+ */
+function getSigningKey(): Promise<CryptoKey> {
+  if (!signingKey) {
+    const secret = env.QUOTE_SECRET || ethers.keccak256(ethers.toUtf8Bytes(`x402-quote:${env.FACILITATOR_PRIVATE_KEY}`));
+    signingKey = crypto.subtle.importKey(
+      'raw',
+      utf8(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign', 'verify']
+    );
+  }
+  return signingKey;
+}
+
+/**
+ * Create a signed token (`<base64url payload>.<base64url hmac>`)
+ */
+export async function signToken(purpose: string, payload: object): Promise<string> {
+  const encoded = Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), utf8(`${purpose}.${encoded}`));
+  return `${encoded}.${Buffer.from(signature).toString('base64url')}`;
+}
+
+/**
+ * Check a token's signature and decode its payload
+ * Returns the payload, or an error if the token is malformed or not signed by us
+ */
+export async function readToken<T>(purpose: string, token: string): Promise<{ payload: T } | { error: 'malformed' | 'signature' }> {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return { error: 'malformed' };
+  }
+
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    await getSigningKey(),
+    new Uint8Array(Buffer.from(signature, 'base64url')),
+    utf8(`${purpose}.${encoded}`)
+  );
+  if (!valid) {
+    return { error: 'signature' };
+  }
+
+  try {
+    return { payload: JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')) as T };
+  } catch {
+    return { error: 'malformed' };
+  }
+}
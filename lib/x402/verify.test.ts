@@ -0,0 +1,167 @@
+/**
+ * verifyX402Payment tests
+ * Chain reads (escrow and token state) are mocked; signatures are real
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createPaymentHeader } from 'x402/client';
+import { createSigner } from 'x402/types';
+import type { PaymentRequirements } from '@/types/x402';
+import { env } from '@/lib/env';
+import { signPaymentAuthorization } from './sign';
+import { verifyX402Payment } from './verify';
+
+const { ESCROW_ADDRESS, BASE_SEPOLIA_USDC } = vi.hoisted(() => ({
+  ESCROW_ADDRESS: '0x00000000000000000000000000000000000e5c40',
+  BASE_SEPOLIA_USDC: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+}));
+
+// A network x402's own client can sign for, with its USDC as an EIP-3009 asset
+vi.mock('@/config/networks.json', async (importOriginal) => {
+  const networks = (await importOriginal<{ default: Record<string, unknown> }>()).default;
+  return {
+    default: {
+      ...networks,
+      'base-sepolia': {
+        name: 'Base Sepolia',
+        chainId: 84532,
+        rpcUrls: ['https://sepolia.base.org'],
+        nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        assets: [{ address: BASE_SEPOLIA_USDC, symbol: 'USDC', decimals: 6, name: 'USDC', version: '2' }],
+        testnet: true,
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/evm/escrow', () => ({
+  getEscrowAddress: vi.fn(() => ESCROW_ADDRESS),
+  getEscrowBalance: vi.fn(),
+  isEscrowNonceUsed: vi.fn(),
+  isEscrowWithdrawalPending: vi.fn(),
+}));
+
+vi.mock('@/lib/evm/eip3009', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/evm/eip3009')>()),
+  isAuthorizationUsed: vi.fn(async () => false),
+}));
+
+const escrow = vi.mocked(await import('@/lib/evm/escrow'));
+
+function nativeRequirements(): PaymentRequirements {
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network: 'polkadot-hub-testnet',
+    maxAmountRequired: ethers.parseEther('1').toString(),
+    resource: '/api/protected/weather',
+    description: 'Weather',
+    mimeType: 'application/json',
+    payTo: env.SELLER_ADDRESS,
+    maxTimeoutSeconds: 300,
+    asset: 'native',
+    extra: {},
+  };
+}
+
+describe('escrowed native payments', () => {
+  beforeEach(() => {
+    escrow.getEscrowBalance.mockResolvedValue(ethers.parseEther('10'));
+    escrow.isEscrowNonceUsed.mockResolvedValue(false);
+    escrow.isEscrowWithdrawalPending.mockResolvedValue(false);
+  });
+
+  it('accepts a payment covered by the deposit', async () => {
+    const requirements = nativeRequirements();
+    const result = await verifyX402Payment(await signPaymentAuthorization(requirements), requirements);
+
+    expect(result.error).toBeUndefined();
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a payment from a deposit with a pending withdrawal', async () => {
+    escrow.isEscrowWithdrawalPending.mockResolvedValue(true);
+    const requirements = nativeRequirements();
+    const result = await verifyX402Payment(await signPaymentAuthorization(requirements), requirements);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Escrow deposit has a pending withdrawal');
+  });
+
+  it('rejects a payment the deposit does not cover', async () => {
+    escrow.getEscrowBalance.mockResolvedValue(ethers.parseEther('0.5'));
+    const requirements = nativeRequirements();
+    const result = await verifyX402Payment(await signPaymentAuthorization(requirements), requirements);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(/^Insufficient escrow balance/);
+  });
+});
+
+describe('spec EIP-3009 payments', () => {
+  const buyer = ethers.Wallet.createRandom();
+
+  function usdcRequirements(): PaymentRequirements {
+    return {
+      x402Version: 1,
+      scheme: 'exact',
+      network: 'base-sepolia',
+      maxAmountRequired: '10000',
+      resource: 'http://localhost:3000/api/protected/weather',
+      description: 'Weather',
+      mimeType: 'application/json',
+      payTo: env.SELLER_ADDRESS,
+      maxTimeoutSeconds: 300,
+      asset: BASE_SEPOLIA_USDC,
+      extra: { name: 'USDC', version: '2' },
+    };
+  }
+
+  /**
+   * X-PAYMENT header as built by x402-fetch and x402-axios (no `asset` in the authorization)
+   */
+  async function signWithX402Client(requirements: PaymentRequirements): Promise<string> {
+    return await createPaymentHeader(
+      await createSigner('base-sepolia', buyer.privateKey),
+      1,
+      requirements as Parameters<typeof createPaymentHeader>[2]
+    );
+  }
+
+  it('accepts a payment signed by the x402 client', async () => {
+    const requirements = usdcRequirements();
+    const header = await signWithX402Client(requirements);
+    const result = await verifyX402Payment(header, requirements);
+
+    expect(result.error).toBeUndefined();
+    expect(result.valid).toBe(true);
+    expect(result.details?.token).toBe(BASE_SEPOLIA_USDC);
+    expect(result.details?.from).toBe(buyer.address);
+  });
+
+  it('rejects an x402 client payment signed for a different amount', async () => {
+    const header = await signWithX402Client({ ...usdcRequirements(), maxAmountRequired: '5000' });
+    const result = await verifyX402Payment(header, usdcRequirements());
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toMatch(/^Insufficient amount/);
+  });
+
+  it('rejects an x402 client payment signed for another token', async () => {
+    const otherToken = ethers.Wallet.createRandom().address;
+    const header = await signWithX402Client({ ...usdcRequirements(), asset: otherToken });
+    const result = await verifyX402Payment(header, usdcRequirements());
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Signature verification failed: address mismatch');
+  });
+
+  it('rejects a native authorization for a route priced in the token', async () => {
+    const header = await signPaymentAuthorization({ ...usdcRequirements(), asset: 'native', extra: {} });
+    const result = await verifyX402Payment(header, usdcRequirements());
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe(`Asset mismatch: expected ${BASE_SEPOLIA_USDC}, got ${ethers.ZeroAddress}`);
+  });
+});
@@ -4,32 +4,76 @@
  */
 
 import type { PaymentRequirements, VerificationResult } from '@/types/x402';
-import { getNetworkConfig } from '@/lib/evm/networks';
+import { getNetworkAsset, getNetworkConfig } from '@/lib/evm/networks';
 import { ethers } from 'ethers';
 import { getProvider } from '@/lib/evm/wallet';
+import { getNonceStore } from './nonce-store';
+import { getTokenDomain, isAuthorizationUsed, TRANSFER_WITH_AUTHORIZATION_TYPES } from '@/lib/evm/eip3009';
+import { getEscrowAddress, getEscrowBalance, isEscrowNonceUsed, isEscrowWithdrawalPending } from '@/lib/evm/escrow';
+import { checkAuthorizationWindow, PAYMENT_AUTHORIZATION_TYPES } from './authorization';
+import {
+  getAuthorizationAsset,
+  isSupportedX402Version,
+  normalizeRequirements,
+  SUPPORTED_X402_VERSIONS,
+  toErrorReason,
+} from './protocol';
+import { verifyResults } from '@/lib/metrics';
+import { failSpan, withSpan } from '@/lib/tracing';
 
 /**
- * Verify an x402 payment payload
+ * Verify an x402 payment payload, counting the result in x402_verify_total
+ */
+export async function verifyX402Payment(
+  payload: string,
+  paymentRequirements: PaymentRequirements
+): Promise<VerificationResult> {
+  return withSpan('x402.verify_payment', {
+    'x402.network': paymentRequirements.network,
+    'x402.scheme': paymentRequirements.scheme,
+    'x402.asset': paymentRequirements.asset,
+  }, async (span) => {
+    const result = await checkPayment(payload, paymentRequirements);
+    const reason = result.valid ? 'none' : toErrorReason(result.error, result.code);
+    verifyResults.inc({ result: result.valid ? 'valid' : 'invalid', reason });
+    span.setAttributes({
+      'x402.valid': result.valid,
+      'x402.amount': result.details?.amount,
+      'x402.payer': result.details?.from,
+    });
+    if (!result.valid) {
+      span.setAttribute('x402.error_reason', reason);
+      failSpan(span, result.error || reason);
+    }
+    return result;
+  });
+}
+
+/**
+ * Check an x402 payment payload
  * 
  * This function validates:
  * - Payment signature validity using EIP-712
- * - Payment meets specified requirements
- * - Nonce/timestamp for replay protection
+ * - Payment meets specified requirements ("upto" authorizes a maximum that is settled for actual usage)
+ * - Nonce and validAfter/validBefore window for replay protection
  * - Payment format and structure
  */
-export async function verifyX402Payment(
+async function checkPayment(
   payload: string,
-  requirements: PaymentRequirements
+  paymentRequirements: PaymentRequirements
 ): Promise<VerificationResult> {
   try {
     // Validate requirements
-    if (!requirements.x402Version || requirements.x402Version !== 1) {
+    if (!isSupportedX402Version(paymentRequirements.x402Version)) {
       return {
         valid: false,
-        error: 'Unsupported x402 version. Only version 1 is supported.',
+        error: `Unsupported x402 version. Supported versions: ${SUPPORTED_X402_VERSIONS.join(', ')}.`,
       };
     }
 
+    // v2 requirements use `amount` and CAIP-2 networks
+    const requirements = normalizeRequirements(paymentRequirements);
+
     if (!requirements.scheme) {
       return {
         valid: false,
@@ -37,6 +81,13 @@ export async function verifyX402Payment(
       };
     }
 
+    if (requirements.scheme !== 'exact' && requirements.scheme !== 'upto') {
+      return {
+        valid: false,
+        error: `Unsupported payment scheme: ${requirements.scheme}`,
+      };
+    }
+
     if (!requirements.network) {
       return {
         valid: false,
@@ -107,12 +158,12 @@ export async function verifyX402Payment(
     // Extract authorization details
     const from = authorization.from;
     const to = authorization.to;
-    const amount = authorization.amount;
+    const amount = authorization.amount ?? authorization.value; // EIP-3009 clients send `value`
     const nonce = authorization.nonce;
     const timestamp = authorization.timestamp;
     const resource = authorization.resource || '';
     const network = authorization.network || requirements.network;
-    const asset = authorization.asset || '0x0000000000000000000000000000000000000000';
+    const asset = getAuthorizationAsset(authorization, requirements);
 
     if (!from || !to || !amount) {
       return {
@@ -121,6 +172,14 @@ export async function verifyX402Payment(
       };
     }
 
+    // The authorization must pay in the advertised asset (native wei are not token units)
+    if (!asset) {
+      return {
+        valid: false,
+        error: `Asset mismatch: expected ${requirements.asset || 'native'}, got ${authorization.asset}`,
+      };
+    }
+
     // Verify network matches
     if (network !== requirements.network) {
       return {
@@ -147,44 +206,91 @@ export async function verifyX402Payment(
       };
     }
 
-    // Verify timestamp is not too old (within 5 minutes)
-    const currentTimestamp = Math.floor(Date.now() / 1000);
-    if (timestamp && currentTimestamp - timestamp > 300) {
+    // Verify the signed validity window (honors maxTimeoutSeconds and clock skew)
+    const validAfter = Number(authorization.validAfter);
+    const validBefore = Number(authorization.validBefore);
+    if (authorization.validAfter === undefined || authorization.validBefore === undefined) {
+      return {
+        valid: false,
+        error: 'Missing validAfter/validBefore in authorization',
+      };
+    }
+
+    const windowError = checkAuthorizationWindow({ validAfter, validBefore }, requirements);
+    if (windowError) {
       return {
         valid: false,
-        error: 'Payment authorization expired',
+        error: windowError,
       };
     }
 
+    const isNative = asset === '0x0000000000000000000000000000000000000000' || asset === 'native';
+
+    // Only assets configured for the network are accepted
+    if (!getNetworkAsset(requirements.network, asset)) {
+      return {
+        valid: false,
+        error: `Unsupported asset ${asset} on network ${requirements.network}`,
+      };
+    }
+
+    // EIP-3009 authorizations can only transfer the exact signed value
+    if (requirements.scheme === 'upto' && !isNative) {
+      return {
+        valid: false,
+        error: 'Unsupported asset for "upto" scheme: only native payments can be settled for a partial amount',
+      };
+    }
+
+    const escrowAddress = isNative ? getEscrowAddress(requirements.network) : null;
+
     // Reconstruct EIP-712 domain and message for verification
-    const domain = {
-      name: 'X402',
-      version: '1',
-      chainId: networkConfig.chainId,
-      verifyingContract: asset,
-    };
+    let domain: ethers.TypedDataDomain;
+    let types: Record<string, ethers.TypedDataField[]>;
+    let message: Record<string, unknown>;
 
-    const types = {
-      PaymentAuthorization: [
-        { name: 'from', type: 'address' },
-        { name: 'to', type: 'address' },
-        { name: 'amount', type: 'uint256' },
-        { name: 'nonce', type: 'bytes32' },
-        { name: 'timestamp', type: 'uint256' },
-        { name: 'resource', type: 'string' },
-        { name: 'network', type: 'string' },
-      ],
-    };
+    if (isNative) {
+      domain = {
+        name: 'X402',
+        version: '1',
+        chainId: networkConfig.chainId,
+        verifyingContract: escrowAddress || asset,
+      };
 
-    const message = {
-      from: from,
-      to: to,
-      amount: BigInt(amount).toString(),
-      nonce: nonce,
-      timestamp: timestamp,
-      resource: resource,
-      network: network,
-    };
+      types = PAYMENT_AUTHORIZATION_TYPES;
+
+      message = {
+        from: from,
+        to: to,
+        amount: BigInt(amount).toString(),
+        nonce: nonce,
+        validAfter: validAfter,
+        validBefore: validBefore,
+        resource: resource,
+        network: network,
+      };
+    } else {
+      // ERC-20 payments are EIP-3009 authorizations for the advertised token
+      try {
+        domain = await getTokenDomain(asset, requirements.network, requirements.extra);
+      } catch (error) {
+        return {
+          valid: false,
+          error: 'Failed to resolve token domain: ' + (error instanceof Error ? error.message : 'Unknown error'),
+        };
+      }
+
+      types = TRANSFER_WITH_AUTHORIZATION_TYPES;
+
+      message = {
+        from: from,
+        to: to,
+        value: BigInt(amount).toString(),
+        validAfter: validAfter,
+        validBefore: validBefore,
+        nonce: nonce,
+      };
+    }
 
     // Verify EIP-712 signature using ethers
     try {
@@ -197,12 +303,57 @@ export async function verifyX402Payment(
         };
       }
 
+      // Reject authorizations whose nonce has already been settled
+      if (await getNonceStore().isUsed(from, nonce)) {
+        return {
+          valid: false,
+          error: 'Payment authorization nonce has already been used',
+          code: 'NONCE_ALREADY_USED',
+        };
+      }
+
+      // Escrowed payments must be covered by the buyer's deposit and not yet redeemed
+      if (escrowAddress) {
+        if (await isEscrowNonceUsed(from, nonce, requirements.network)) {
+          return {
+            valid: false,
+            error: 'Payment authorization nonce has already been used on-chain',
+            code: 'NONCE_ALREADY_USED',
+          };
+        }
+
+        const escrowBalance = await getEscrowBalance(from, requirements.network);
+        if (escrowBalance < paidAmount) {
+          return {
+            valid: false,
+            error: `Insufficient escrow balance: has ${escrowBalance.toString()}, needs ${amount}`,
+          };
+        }
+
+        // A deposit under a withdrawal request could be pulled before settlement
+        if (await isEscrowWithdrawalPending(from, requirements.network)) {
+          return {
+            valid: false,
+            error: 'Escrow deposit has a pending withdrawal',
+          };
+        }
+      }
+
+      // Tokens track EIP-3009 nonces on-chain as well
+      if (!isNative && await isAuthorizationUsed(asset, from, nonce, requirements.network)) {
+        return {
+          valid: false,
+          error: 'Payment authorization nonce has already been used on-chain',
+          code: 'NONCE_ALREADY_USED',
+        };
+      }
+
       // Payment is valid
       return {
         valid: true,
         details: {
           amount: amount,
-          token: asset === '0x0000000000000000000000000000000000000000' ? 'native' : asset,
+          token: isNative ? 'native' : asset,
           from: from,
           to: to,
           nonce: nonce,
@@ -2,65 +2,79 @@
  * Next.js Middleware - x402 Payment Interceptor
  * 
  * This middleware intercepts all incoming requests and checks for x402 payments
- * on protected routes. Routes can be protected by adding them to PROTECTED_ROUTES.
+ * on protected routes. Routes and their prices are declared in config/pricing.json.
  * 
  * Based on x402 protocol specifications:
- * - Checks for X-402-Payment header
- * - Returns 402 Payment Required if payment is missing or invalid
+ * - Checks for X-PAYMENT (v1) or PAYMENT-SIGNATURE (v2), falling back to the legacy X-402-Payment header
+ * - Returns 402 Payment Required with `{ x402Version, accepts, error }` if payment is missing or invalid
  * - Allows request to proceed if payment is valid
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 // Middleware calls facilitator endpoints via HTTP, not SDK directly
-import { getWalletAddress, getSellerAddress } from './lib/evm/wallet';
-import { getNetworkConfig } from './lib/evm/networks';
+import { getWalletAddress } from './lib/evm/wallet';
 import { env } from './lib/env';
-import type { PaymentRequirements } from './types/x402';
-
-/**
- * Routes that require x402 payment protection
- * Add route patterns here to protect them
- */
-const PROTECTED_ROUTES = [
-  '/api/protected/weather',
-];
-
-/**
- * Payment configuration per route
- * Can be customized per endpoint
- */
-const ROUTE_PAYMENT_CONFIG: Record<string, {
-  amount: string;
-  token?: string;
-  description?: string;
-}> = {
-  '/api/protected/weather': {
-    amount: '1000000000000000000', // 1 PAS token (18 decimals)
-    description: 'Access to weather API endpoint',
-  },
-};
-
-/**
- * Check if a route requires x402 payment protection
- */
-function isProtectedRoute(pathname: string): boolean {
-  return PROTECTED_ROUTES.some(route => pathname.startsWith(route));
-}
+import { METERED_PAYMENT_HEADER, METERED_REQUIREMENTS_HEADER } from './lib/x402/metered';
+import { getQuotedRoutePrice, getRoutePrice, quoteRoutePrice, selectPaymentOption, type RoutePrice } from './lib/x402/pricing';
+import { QUOTE_HEADER } from './lib/x402/quote';
+import { RECEIPT_HEADER } from './lib/x402/receipt';
+import { createPaymentRequiredResponse, getRouteSeller } from './lib/x402/payment-required';
+import type { Seller } from './lib/x402/sellers';
+import { getSellerAuthHeaders } from './lib/x402/seller-auth';
+import { enforceRateLimit, getClientIp, getPayloadPayer, TOTAL_RATE_LIMIT_KEY } from './lib/x402/rate-limit';
+import { getRequestId, getRequestLogger, REQUEST_ID_HEADER } from './lib/logger';
+import { endSpan, getTraceHeaders, SpanKind, startSpan, withSpan, type Span } from './lib/tracing';
+import {
+  ACCESS_PASS_HEADER,
+  ACCESS_PASS_REMAINING_HEADER,
+  createAccessPass,
+  verifyAccessPass,
+} from './lib/x402/access-pass';
+import {
+  decodePaymentHeader,
+  encodeHeaderValue,
+  getPayer,
+  fromCaip2Network,
+  getPaymentRequirements,
+  LEGACY_PAYMENT_DETAILS_HEADER,
+  LEGACY_PAYMENT_HEADER,
+  PAYMENT_HEADER,
+  PAYMENT_RESPONSE_HEADER,
+  PAYMENT_RESPONSE_HEADER_V2,
+  PAYMENT_SIGNATURE_HEADER,
+  toFacilitatorSettleResponse,
+} from './lib/x402/protocol';
+import type { PaymentRequirements, SettlementResult } from './types/x402';
 
 /**
  * Extract payment from request headers
- * x402 protocol uses X-402-Payment header and optionally X-402-Payment-Details
+ * Spec clients send X-PAYMENT (v1) or PAYMENT-SIGNATURE (v2); legacy clients send
+ * X-402-Payment and optionally X-402-Payment-Details
  */
 function extractPayment(request: NextRequest): {
   payload: string | null;
   details: PaymentRequirements | null;
+  format: 'spec' | 'legacy';
 } {
-  // Check for X-402-Payment header (standard x402 header)
-  const paymentHeader = request.headers.get('X-402-Payment');
-  const detailsHeader = request.headers.get('X-402-Payment-Details');
+  const specHeader = request.headers.get(PAYMENT_HEADER) || request.headers.get(PAYMENT_SIGNATURE_HEADER);
+  if (specHeader) {
+    const payment = decodePaymentHeader(specHeader);
+    if (!payment) {
+      return { payload: null, details: null, format: 'spec' };
+    }
+    return {
+      payload: JSON.stringify(payment),
+      details: getPaymentRequirements(payment) as PaymentRequirements,
+      format: 'spec',
+    };
+  }
+
+  // Check for the legacy X-402-Payment header
+  const paymentHeader = request.headers.get(LEGACY_PAYMENT_HEADER);
+  const detailsHeader = request.headers.get(LEGACY_PAYMENT_DETAILS_HEADER);
   
   if (!paymentHeader) {
-    return { payload: null, details: null };
+    return { payload: null, details: null, format: 'legacy' };
   }
 
   // Try to parse payment details from X-402-Payment-Details header first
@@ -92,6 +106,7 @@ function extractPayment(request: NextRequest): {
       return {
         payload: parsed.payload,
         details: parsed.details as PaymentRequirements,
+        format: 'legacy',
       };
     }
     
@@ -104,6 +119,7 @@ function extractPayment(request: NextRequest): {
           scheme: 'exact',
           network: env.NETWORK,
         },
+        format: 'legacy',
       };
     }
 
@@ -125,6 +141,7 @@ function extractPayment(request: NextRequest): {
           asset: parsed.asset || '',
           extra: parsed.extra || {},
         } as PaymentRequirements,
+        format: 'legacy',
       };
     }
   } catch {
@@ -137,58 +154,64 @@ function extractPayment(request: NextRequest): {
           scheme: 'exact',
           network: env.NETWORK,
         },
+        format: 'legacy',
       };
     }
   }
 
-  return { payload: null, details: null };
+  return { payload: null, details: null, format: 'legacy' };
 }
 
 /**
- * Create 402 Payment Required response
+ * Base URL of the facilitator endpoints
+ * FACILITATOR_URL may point at an endpoint (e.g. .../settle); its parent is used then
  */
-async function create402Response(
-  request: NextRequest,
-  config: { amount: string; token?: string; description?: string }
-): Promise<NextResponse> {
-  const network = env.NETWORK;
-  const networkConfig = getNetworkConfig(network);
-  
-  // Seller address receives payments (payTo)
-  const sellerAddress = await getSellerAddress(network);
-  
-  // Use configured facilitator URL
-  const facilitatorUrl = env.FACILITATOR_URL;
-  
-  // Use token from config, default to 'native' for native tokens
-  const tokenAddress = config.token || 'native';
+function getFacilitatorBaseUrl(): string {
+  const facilitatorUrl = env.FACILITATOR_URL || '/api/facilitator';
+  if (facilitatorUrl.includes('/settle') || facilitatorUrl.includes('/verify')) {
+    return facilitatorUrl.split('/').slice(0, -1).join('/') || '/api/facilitator';
+  }
+  return facilitatorUrl;
+}
 
-  const response = {
-    maxAmountRequired: config.amount,
-    resource: request.nextUrl.pathname,
-    description: config.description || 'Access to this resource requires payment',
-    payTo: sellerAddress,
-    asset: tokenAddress,
-    network,
-    x402Version: 1,
-    scheme: 'exact',
-    facilitator: facilitatorUrl,
-    mimeType: 'application/json',
-    maxTimeoutSeconds: 300,
-  };
+/**
+ * Redeem one request of an access pass
+ * Passes limited only by time are checked here; request-limited passes are
+ * counted by the facilitator so every instance shares the same allowance
+ */
+async function redeemAccessPass(
+  token: string,
+  group: string,
+  seller: Seller
+): Promise<{ valid: true; remaining?: number } | { valid: false; error: string }> {
+  const result = await verifyAccessPass(token, group, seller.id);
+  if ('error' in result) {
+    return { valid: false, error: result.error };
+  }
+  if (result.pass.maxUses === undefined) {
+    return { valid: true };
+  }
 
-  return NextResponse.json(response, {
-    status: 402,
-    headers: {
-      'Content-Type': 'application/json',
-      'X-402-Version': '1',
-      'X-402-Scheme': 'exact',
-      'X-402-Network': network,
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': request.method,
-      'Access-Control-Allow-Headers': 'Content-Type, X-402-Payment',
-    },
-  });
+  try {
+    // Redemptions are signed as the route's seller, like verify and settle
+    const redeemUrl = `${getFacilitatorBaseUrl()}/access-pass`;
+    const redeemBody = JSON.stringify({ token, group });
+    const redeemResponse = await fetch(redeemUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await getSellerAuthHeaders(seller, 'POST', redeemUrl, redeemBody)),
+      },
+      body: redeemBody,
+    });
+    const data = await redeemResponse.json().catch(() => ({}));
+    if (!redeemResponse.ok || !data.valid) {
+      return { valid: false, error: data.error || `Access pass redemption failed: ${redeemResponse.statusText}` };
+    }
+    return { valid: true, remaining: data.remaining };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Access pass request failed' };
+  }
 }
 
 /**
@@ -198,50 +221,146 @@ async function create402Response(
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
-  // Skip middleware for non-protected routes
-  if (!isProtectedRoute(pathname)) {
+  // Client IPs (and routes' total traffic) are limited on every route listed in config/rate-limits.json,
+  // facilitator endpoints included (CORS preflights are not counted)
+  if (request.method !== 'OPTIONS') {
+    const ipLimited = await enforceRateLimit(request, { ip: getClientIp(request), total: TOTAL_RATE_LIMIT_KEY });
+    if (ipLimited) {
+      return ipLimited;
+    }
+  }
+
+  // Look up the route's price; unpriced routes and methods are not protected
+  // Routes settled after their handler are charged by withX402 in the route itself
+  const routePrice = getRoutePrice(pathname, request.method);
+  if (!routePrice || routePrice.settleAfterHandler) {
     return NextResponse.next();
   }
 
-  // Get payment configuration for this route
-  const paymentConfig = ROUTE_PAYMENT_CONFIG[pathname] || {
-    amount: '1000000000000000000', // Default: 1 PAS token
-    description: 'Access to this resource requires payment',
-  };
+  // One trace per paid request: this span, the facilitator's verify and settle, and their RPC calls
+  return withSpan('x402.middleware', {
+    'http.request.method': request.method,
+    'http.route': routePrice.pattern,
+  }, (span) => handlePayment(request, routePrice, span));
+}
+
+/**
+ * Payment handling of a priced route, recorded on the middleware's span
+ */
+async function handlePayment(request: NextRequest, routePrice: RoutePrice, span: Span): Promise<Response> {
+  const { pathname } = request.nextUrl;
+
+  // The request id is forwarded to the facilitator, so verify and settle log lines share it
+  const requestId = getRequestId(request);
+  const log = getRequestLogger(request, 'middleware', requestId);
 
   // Extract payment from request
-  const { payload, details } = extractPayment(request);
+  const { payload, details, format } = extractPayment(request);
+
+  // A valid access pass for the route's group replaces payment (a new payment buys a new pass)
+  const accessPass = request.headers.get(ACCESS_PASS_HEADER);
+  if (routePrice.pass && accessPass && !payload) {
+    const redemption = await redeemAccessPass(accessPass, routePrice.pass.group, getRouteSeller(pathname));
+    if (!redemption.valid) {
+      return await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+        error: redemption.error,
+        headers: {
+          'X-402-Error': redemption.error,
+        },
+      });
+    }
+
+    const response = NextResponse.next();
+    response.headers.set('X-Payment-Verified', 'true');
+    if (redemption.remaining !== undefined) {
+      response.headers.set(ACCESS_PASS_REMAINING_HEADER, String(redemption.remaining));
+    }
+    return response;
+  }
 
-  // If no payment provided, return 402 Payment Required
+  // If no payment provided, return 402 Payment Required (hook-priced routes get a signed quote)
   if (!payload || !details) {
-    return await create402Response(request, paymentConfig);
+    return await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: format === 'spec' ? 'Invalid X-PAYMENT header' : undefined,
+    });
+  }
+
+  // Paying addresses are limited too, so one wallet cannot flood verification from many IPs
+  const payerLimited = await enforceRateLimit(request, { payer: getPayloadPayer(payload) });
+  if (payerLimited) {
+    return payerLimited;
+  }
+
+  // Hook-priced routes charge the amount quoted in the 402, not a freshly computed one
+  const quoted = await getQuotedRoutePrice(
+    request,
+    routePrice,
+    request.headers.get(QUOTE_HEADER) || details.extra?.quote
+  );
+  if ('error' in quoted) {
+    return await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: quoted.error,
+      x402Version: details.x402Version,
+      headers: {
+        'X-402-Error': quoted.error,
+      },
+    });
+  }
+
+  // Verify against whichever advertised option the payment was made with
+  const paymentConfig = selectPaymentOption(quoted.price, {
+    network: details.network ? fromCaip2Network(details.network) : undefined,
+    asset: details.asset || undefined,
+  });
+  if (!paymentConfig) {
+    return await createPaymentRequiredResponse(request, quoted.price, {
+      error: 'Payment option not accepted',
+      x402Version: details.x402Version,
+      body: {
+        received: {
+          network: details.network,
+          asset: details.asset,
+        },
+      },
+      headers: {
+        'X-402-Error': 'Payment option not accepted',
+      },
+    });
   }
 
   // Merge payment details with payment config to create full requirements
   // Preserve values from payment details to ensure verification matches what was signed
-  const sellerAddress = await getSellerAddress(env.NETWORK);
+  const seller = getRouteSeller(pathname);
+  const sellerAddress = seller.payTo;
   const fullPaymentRequirements: PaymentRequirements & Record<string, any> = {
     ...details,
     // Override only if not provided in details, to ensure verification matches signed payment
     maxAmountRequired: (details as any).maxAmountRequired || paymentConfig.amount,
     resource: (details as any).resource || pathname,
-    description: (details as any).description || paymentConfig.description || 'Access to this resource requires payment',
-    payTo: (details as any).payTo || sellerAddress,
-    asset: (details as any).asset || paymentConfig.token || 'native',
-    mimeType: (details as any).mimeType || 'application/json',
-    maxTimeoutSeconds: (details as any).maxTimeoutSeconds || 300,
+    description: (details as any).description || paymentConfig.description,
+    // The seller is always the recipient; a client-supplied payTo would let buyers pay themselves
+    payTo: sellerAddress,
+    // Network and asset are the matched option's, never a client-supplied value
+    asset: paymentConfig.asset,
+    mimeType: (details as any).mimeType || paymentConfig.mimeType,
+    // Window limit is the seller's, never the client's (it is not part of the signed data)
+    maxTimeoutSeconds: paymentConfig.maxTimeoutSeconds,
     // Ensure required fields are set
     x402Version: details.x402Version || 1,
-    scheme: details.scheme || 'exact',
-    network: details.network || env.NETWORK,
+    // A route's configured scheme wins, so "upto" routes are never settled for the full maximum
+    scheme: paymentConfig.scheme,
+    network: paymentConfig.network,
   };
 
-  // Debug logging
-  const payloadStr = typeof payload === 'string' ? payload : ((payload as any)?.payload || JSON.stringify(payload));
-  console.log('Middleware: Verifying payment', {
-    payloadLength: payloadStr.length,
-    payloadPrefix: payloadStr.substring(0, 20),
-    payloadType: typeof payload,
+  span.setAttributes({
+    'x402.network': fullPaymentRequirements.network,
+    'x402.scheme': fullPaymentRequirements.scheme,
+    'x402.asset': fullPaymentRequirements.asset,
+    'x402.amount': fullPaymentRequirements.maxAmountRequired,
+  });
+
+  log.info('Middleware: Verifying payment', {
+    format,
     network: fullPaymentRequirements.network,
     scheme: fullPaymentRequirements.scheme,
     payTo: fullPaymentRequirements.payTo,
@@ -271,25 +390,31 @@ export async function middleware(request: NextRequest) {
   }
 
   // Call facilitator verify endpoint
-  // Ensure FACILITATOR_URL is the base path, not the settle endpoint
-  let facilitatorBaseUrl = env.FACILITATOR_URL || '/api/facilitator';
-  // Remove any trailing paths to ensure we have the base URL
-  if (facilitatorBaseUrl.includes('/settle') || facilitatorBaseUrl.includes('/verify')) {
-    facilitatorBaseUrl = facilitatorBaseUrl.split('/').slice(0, -1).join('/') || '/api/facilitator';
-  }
+  const facilitatorBaseUrl = getFacilitatorBaseUrl();
   const verifyUrl = `${facilitatorBaseUrl}/verify`;
   
-  let verification: { valid: boolean; error?: string; details?: any };
+  let verification: { valid: boolean; error?: string; code?: string; details?: any };
+  const verifySpan = startSpan('x402.verify', {
+    'http.request.method': 'POST',
+    'url.full': verifyUrl,
+    'x402.network': fullPaymentRequirements.network,
+    'x402.scheme': fullPaymentRequirements.scheme,
+  }, SpanKind.CLIENT);
   try {
+    // Requests to the facilitator are signed as the route's seller
+    const verifyBody = JSON.stringify({
+      payload: payloadForVerification,
+      details: fullPaymentRequirements,
+    });
     const verifyResponse = await fetch(verifyUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        [REQUEST_ID_HEADER]: requestId,
+        ...getTraceHeaders(verifySpan),
+        ...(await getSellerAuthHeaders(seller, 'POST', verifyUrl, verifyBody)),
       },
-      body: JSON.stringify({
-        payload: payloadForVerification,
-        details: fullPaymentRequirements,
-      }),
+      body: verifyBody,
     });
 
     if (!verifyResponse.ok) {
@@ -297,6 +422,7 @@ export async function middleware(request: NextRequest) {
       verification = {
         valid: false,
         error: errorData.error || `Verification failed: ${verifyResponse.statusText}`,
+        code: errorData.code,
       };
     } else {
       verification = await verifyResponse.json();
@@ -306,50 +432,51 @@ export async function middleware(request: NextRequest) {
       valid: false,
       error: error instanceof Error ? error.message : 'Verification request failed',
     };
+    verifySpan.recordException(error instanceof Error ? error : String(error));
   }
+  verifySpan.setAttributes({
+    'x402.valid': verification.valid,
+    ...(verification.code ? { 'x402.error_code': verification.code } : {}),
+    ...(verification.details?.from ? { 'x402.payer': verification.details.from } : {}),
+  });
+  endSpan(verifySpan, verification.valid ? undefined : verification.error);
   
-  console.log('Middleware: Verification result', {
+  log.info('Middleware: Verification result', {
     valid: verification.valid,
     error: verification.error,
-    details: verification.details,
+    code: verification.code,
+    payer: verification.details?.from,
+    nonce: verification.details?.nonce,
   });
 
   // If payment is invalid, return 402 with error details
   if (!verification.valid) {
-    const network = env.NETWORK;
-    const sellerAddress = await getSellerAddress(network);
-    // For native tokens, use "native" string (not an address)
-    // The client will convert this to zero address when creating payment
-    const tokenAddress = paymentConfig.token || 'native';
-    
     // Sanitize error message to avoid invalid header values
     const errorMessage = verification.error || 'Invalid payment';
     const sanitizedError = errorMessage.replace(/\n/g, ' ').substring(0, 200);
     
-    return NextResponse.json(
-      {
-        error: 'Payment verification failed',
+    return await createPaymentRequiredResponse(request, paymentConfig, {
+      error: 'Payment verification failed',
+      x402Version: fullPaymentRequirements.x402Version,
+      body: {
         details: sanitizedError,
-        maxAmountRequired: paymentConfig.amount,
-        resource: pathname,
-        payTo: sellerAddress,
-        asset: tokenAddress,
-        network,
-        x402Version: 1,
-        scheme: 'exact',
-        facilitator: env.FACILITATOR_URL,
-        mimeType: 'application/json',
-        maxTimeoutSeconds: 300,
+        code: verification.code,
       },
-      {
-        status: 402,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-402-Error': sanitizedError,
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+      headers: {
+        'X-402-Error': sanitizedError,
+      },
+    });
+  }
+
+  // A quote made for a specific payer is only honoured for that payer's payments
+  if (quoted.payer && verification.details?.from?.toLowerCase() !== quoted.payer) {
+    return await createPaymentRequiredResponse(request, await quoteRoutePrice(request, routePrice), {
+      error: 'Price quote was issued for a different payer',
+      x402Version: fullPaymentRequirements.x402Version,
+      headers: {
+        'X-402-Error': 'Quote payer mismatch',
+      },
+    });
   }
 
   // Payment is valid - check if amount meets requirement
@@ -358,69 +485,34 @@ export async function middleware(request: NextRequest) {
     const requiredAmount = BigInt(paymentConfig.amount);
 
     if (paidAmount < requiredAmount) {
-      const network = env.NETWORK;
-      const sellerAddress = await getSellerAddress(network);
-      const tokenAddress = paymentConfig.token || 'native';
-      
-      return NextResponse.json(
-        {
-          error: 'Insufficient payment amount',
+      return await createPaymentRequiredResponse(request, paymentConfig, {
+        error: 'Insufficient payment amount',
+        x402Version: fullPaymentRequirements.x402Version,
+        body: {
           paid: verification.details.amount,
           required: paymentConfig.amount,
-          maxAmountRequired: paymentConfig.amount,
-          resource: pathname,
-          payTo: sellerAddress,
-          asset: tokenAddress,
-          network,
-          x402Version: 1,
-          scheme: 'exact',
-          facilitator: env.FACILITATOR_URL,
-          mimeType: 'application/json',
-          maxTimeoutSeconds: 300,
         },
-        {
-          status: 402,
-          headers: {
-            'Content-Type': 'application/json',
-            'X-402-Error': 'Insufficient payment',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+        headers: {
+          'X-402-Error': 'Insufficient payment',
+        },
+      });
     }
 
     // Check token if specified
-    const expectedToken = paymentConfig.token || 'native';
+    const expectedToken = paymentConfig.asset;
     if (verification.details.token) {
       if (verification.details.token.toLowerCase() !== expectedToken.toLowerCase()) {
-        const network = env.NETWORK;
-        const sellerAddress = await getSellerAddress(network);
-        
-        return NextResponse.json(
-          {
-            error: 'Invalid payment token',
+        return await createPaymentRequiredResponse(request, paymentConfig, {
+          error: 'Invalid payment token',
+          x402Version: fullPaymentRequirements.x402Version,
+          body: {
             expected: expectedToken,
             received: verification.details.token,
-            maxAmountRequired: paymentConfig.amount,
-            resource: pathname,
-            payTo: sellerAddress,
-            asset: expectedToken,
-            network,
-            x402Version: 1,
-            scheme: 'exact',
-            facilitator: env.FACILITATOR_URL,
-            mimeType: 'application/json',
-            maxTimeoutSeconds: 300,
           },
-          {
-            status: 402,
-            headers: {
-              'Content-Type': 'application/json',
-              'X-402-Error': 'Invalid token',
-              'Access-Control-Allow-Origin': '*',
-            },
-          }
-        );
+          headers: {
+            'X-402-Error': 'Invalid token',
+          },
+        });
       }
     }
   }
@@ -445,20 +537,54 @@ export async function middleware(request: NextRequest) {
     payloadForSettlement = JSON.stringify(payload);
   }
 
+  // "upto" payments are settled by the route handler once it knows the actual usage
+  // (see lib/x402/metered.ts); client-supplied copies of these headers are overwritten
+  if (fullPaymentRequirements.scheme === 'upto') {
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set(METERED_PAYMENT_HEADER, payloadForSettlement);
+    requestHeaders.set(REQUEST_ID_HEADER, requestId);
+    requestHeaders.set(METERED_REQUIREMENTS_HEADER, JSON.stringify({
+      ...fullPaymentRequirements,
+      // The handler may charge up to the route's price, not a client-supplied maximum
+      maxAmountRequired: paymentConfig.amount,
+    }));
+
+    const response = NextResponse.next({ request: { headers: requestHeaders } });
+    response.headers.set('X-Payment-Verified', 'true');
+    response.headers.set('X-Payment-Max-Amount', paymentConfig.amount);
+    response.headers.set(REQUEST_ID_HEADER, requestId);
+    return response;
+  }
+
   // Call facilitator settle endpoint (use same base URL)
   const settleUrl = `${facilitatorBaseUrl}/settle`;
   
-  let settlement: { success: boolean; transactionHash?: string; error?: string };
+  // Optimistic routes deliver right after broadcast instead of waiting for block inclusion
+  const settlementMode = paymentConfig.settlement === 'optimistic' ? 'async' : 'sync';
+
+  let settlement: SettlementResult;
+  const settleSpan = startSpan('x402.settle', {
+    'http.request.method': 'POST',
+    'url.full': settleUrl,
+    'x402.network': fullPaymentRequirements.network,
+    'x402.scheme': fullPaymentRequirements.scheme,
+    'x402.settlement_mode': settlementMode,
+  }, SpanKind.CLIENT);
   try {
+    const settleBody = JSON.stringify({
+      payload: payloadForSettlement,
+      details: fullPaymentRequirements,
+      mode: settlementMode,
+    });
     const settleResponse = await fetch(settleUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        [REQUEST_ID_HEADER]: requestId,
+        ...getTraceHeaders(settleSpan),
+        ...(await getSellerAuthHeaders(seller, 'POST', settleUrl, settleBody)),
       },
-      body: JSON.stringify({
-        payload: payloadForSettlement,
-        details: fullPaymentRequirements,
-      }),
+      body: settleBody,
     });
 
     if (!settleResponse.ok) {
@@ -475,52 +601,92 @@ export async function middleware(request: NextRequest) {
       success: false,
       error: error instanceof Error ? error.message : 'Settlement request failed',
     };
+    settleSpan.recordException(error instanceof Error ? error : String(error));
   }
+  settleSpan.setAttributes({
+    'x402.settled': settlement.success,
+    ...(settlement.status ? { 'x402.settlement_status': settlement.status } : {}),
+    ...(settlement.settlementId ? { 'x402.settlement_id': settlement.settlementId } : {}),
+    ...(settlement.transactionHash ? { 'x402.transaction_hash': settlement.transactionHash } : {}),
+  });
+  endSpan(settleSpan, settlement.success ? undefined : settlement.error);
+  if (settlement.transactionHash) {
+    span.setAttribute('x402.transaction_hash', settlement.transactionHash);
+  }
+
+  log.info('Middleware: Settlement result', {
+    settlementId: settlement.settlementId,
+    success: settlement.success,
+    status: settlement.status,
+    transactionHash: settlement.transactionHash,
+    error: settlement.error,
+  });
 
   if (!settlement.success) {
     // Settlement failed - return error
-    const network = env.NETWORK;
-    const sellerAddress = await getSellerAddress(network);
-    const tokenAddress = paymentConfig.token || 'native';
-    
-    return NextResponse.json(
-      {
-        error: 'Payment settlement failed',
+    return await createPaymentRequiredResponse(request, paymentConfig, {
+      error: 'Payment settlement failed',
+      x402Version: fullPaymentRequirements.x402Version,
+      body: {
         details: settlement.error,
-        maxAmountRequired: paymentConfig.amount,
-        resource: pathname,
-        payTo: sellerAddress,
-        asset: tokenAddress,
-        network,
-        x402Version: 1,
-        scheme: 'exact',
-        facilitator: env.FACILITATOR_URL,
-        mimeType: 'application/json',
-        maxTimeoutSeconds: 300,
       },
-      {
-        status: 402,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-402-Error': settlement.error || 'Settlement failed',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+      headers: {
+        'X-402-Error': (settlement.error || 'Settlement failed').replace(/\n/g, ' ').substring(0, 200),
+      },
+    });
   }
 
   // Payment verified and settled successfully - add headers and allow request to proceed
   const response = NextResponse.next();
   response.headers.set('X-Payment-Verified', 'true');
+  response.headers.set(REQUEST_ID_HEADER, requestId);
   response.headers.set('X-Payment-Amount', verification.details?.amount || '0');
-  if (settlement.transactionHash) {
+  if (settlement.settlementId) {
+    response.headers.set('X-Settlement-Id', settlement.settlementId);
+  }
+  if (settlement.receipt) {
+    response.headers.set(RECEIPT_HEADER, settlement.receipt);
+  }
+  if (format === 'spec') {
+    // Spec clients decode a base64 settle response (X-PAYMENT-RESPONSE, or PAYMENT-RESPONSE in v2)
+    const x402Version = fullPaymentRequirements.x402Version;
+    const paymentResponse = toFacilitatorSettleResponse(
+      settlement,
+      fullPaymentRequirements.network,
+      x402Version,
+      getPayer(JSON.parse(payloadForSettlement))
+    );
+    response.headers.set(
+      x402Version === 2 ? PAYMENT_RESPONSE_HEADER_V2 : PAYMENT_RESPONSE_HEADER,
+      encodeHeaderValue(paymentResponse)
+    );
+    if (settlement.transactionHash) {
+      response.headers.set('X-Settlement-Tx', settlement.transactionHash);
+    }
+  } else if (settlement.transactionHash) {
     response.headers.set('X-Settlement-Tx', settlement.transactionHash);
-    // Also set X-Payment-Response header as per x402 spec
+    // Also set X-Payment-Response header for legacy clients
     response.headers.set('X-Payment-Response', JSON.stringify({
       transactionHash: settlement.transactionHash,
-      settled: true,
+      settled: settlement.status !== 'pending',
+      status: settlement.status || 'confirmed',
+      settlementId: settlement.settlementId,
+      receipt: settlement.receipt,
     }));
   }
+
+  // Routes selling a pass hand it out once the payment has settled
+  if (paymentConfig.pass) {
+    const { token, pass } = await createAccessPass(paymentConfig.pass, {
+      network: paymentConfig.network,
+      seller: seller.id,
+      payer: verification.details?.from,
+    });
+    response.headers.set(ACCESS_PASS_HEADER, token);
+    if (pass.maxUses !== undefined) {
+      response.headers.set(ACCESS_PASS_REMAINING_HEADER, String(pass.maxUses));
+    }
+  }
   
   return response;
 }
@@ -529,6 +695,8 @@ export async function middleware(request: NextRequest) {
  * Configure which routes the middleware should run on
  */
 export const config = {
+  // In the process serving the route handlers, so 402s land in the metrics /api/metrics renders
+  runtime: 'nodejs',
   matcher: [
     /*
      * Match all request paths except for the ones starting with:
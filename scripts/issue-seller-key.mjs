@@ -0,0 +1,26 @@
+/**
+ * Issue an API key for a seller of config/sellers.json
+ * Usage: node scripts/issue-seller-key.mjs <seller-id>
+ *
+ * The facilitator keeps the key in the env var named by the seller's `apiKeyEnv`;
+ * the seller keeps a copy and signs its requests with it (lib/x402/seller-auth.ts).
+ */
+
+import { ethers } from 'ethers';
+
+const sellerId = process.argv[2];
+if (!sellerId) {
+  console.error('Usage: node scripts/issue-seller-key.mjs <seller-id>');
+  process.exit(1);
+}
+
+const apiKeyEnv = `SELLER_${sellerId.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`;
+const apiKey = ethers.hexlify(ethers.randomBytes(32));
+
+console.log(`API key for seller "${sellerId}":\n`);
+console.log('Seller entry in config/sellers.json:');
+console.log(`  "id": "${sellerId}",`);
+console.log(`  "apiKeyEnv": "${apiKeyEnv}"\n`);
+console.log('Environment Variables (facilitator and seller):');
+console.log(`${apiKeyEnv}=${apiKey}\n`);
+console.log('Share the key with the seller over a secure channel. Issue a new key to revoke the old one.');
@@ -6,6 +6,7 @@ import { u8aToHex } from '@polkadot/util';
 import type { PaymentRequirements, PolkadotSigner } from '../types';
 import type { CreatePaymentHeaderOptions, PaymentHeaderResult } from './types';
 import { createPaymentHash, encodePaymentPayload } from '../utils/crypto';
+import { createAuthorizationWindow } from '../utils/authorization';
 
 /**
  * Create a payment header for x402 protocol
@@ -26,6 +27,11 @@ export async function createPaymentHeader(
   // Generate nonce if not provided
   const paymentNonce = nonce || generateNonce();
 
+  // Fill the validity window from the requirements unless given explicitly
+  const defaultWindow = createAuthorizationWindow(requirements);
+  const validAfter = options.validAfter ?? defaultWindow.validAfter;
+  const validBefore = options.validBefore ?? defaultWindow.validBefore;
+
   // Create payment hash
   const paymentHash = createPaymentHash({
     from: signer.address,
@@ -33,6 +39,8 @@ export async function createPaymentHeader(
     amount,
     nonce: paymentNonce,
     timestamp,
+    validAfter,
+    validBefore,
     network: requirements.network,
     resource: requirements.resource,
   });
@@ -48,6 +56,8 @@ export async function createPaymentHeader(
     amount,
     nonce: paymentNonce,
     timestamp,
+    validAfter,
+    validBefore,
     signature: signatureHex,
   };
 
@@ -14,6 +14,8 @@ export interface CreatePaymentHeaderOptions {
   requirements: PaymentRequirements;
   nonce?: string;
   timestamp?: number;
+  validAfter?: number; // Unix seconds; defaults to now minus clock skew
+  validBefore?: number; // Unix seconds; defaults to now plus requirements.maxTimeoutSeconds
 }
 
 /**
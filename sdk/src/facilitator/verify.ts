@@ -7,13 +7,25 @@ import type { PaymentRequirements, VerificationResult } from '../types';
 import { getNetworkConfig } from '../networks/config';
 import { decodePaymentPayload, verifySignature, createPaymentHash } from '../utils/crypto';
 import { validatePaymentRequirements } from '../utils/validation';
+import { checkAuthorizationWindow, DEFAULT_CLOCK_SKEW_SECONDS } from '../utils/authorization';
+
+/**
+ * Verification options
+ */
+export interface VerifyOptions {
+  /**
+   * Tolerated clock difference (seconds) when checking validAfter/validBefore
+   */
+  clockSkewSeconds?: number;
+}
 
 /**
  * Verify an x402 payment payload
  */
 export async function verifyX402Payment(
   payload: string,
-  requirements: PaymentRequirements
+  requirements: PaymentRequirements,
+  options: VerifyOptions = {}
 ): Promise<VerificationResult> {
   try {
     // Validate requirements
@@ -89,13 +101,23 @@ export async function verifyX402Payment(
       }
     }
 
-    // Verify timestamp is not too old
-    const maxTimeout = requirements.maxTimeoutSeconds || 300;
-    const ageSeconds = (Date.now() - paymentData.timestamp) / 1000;
-    if (ageSeconds > maxTimeout) {
+    // Verify the signed validity window (honors maxTimeoutSeconds and clock skew)
+    if (paymentData.validAfter === undefined || paymentData.validBefore === undefined) {
+      return {
+        valid: false,
+        error: 'Invalid payment payload. Missing validAfter/validBefore.',
+      };
+    }
+
+    const windowError = checkAuthorizationWindow(
+      { validAfter: Number(paymentData.validAfter), validBefore: Number(paymentData.validBefore) },
+      requirements,
+      options.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS
+    );
+    if (windowError) {
       return {
         valid: false,
-        error: `Payment timestamp is too old. Age: ${ageSeconds}s, max: ${maxTimeout}s`,
+        error: windowError,
       };
     }
 
@@ -106,6 +128,8 @@ export async function verifyX402Payment(
       amount: paymentData.amount,
       nonce: paymentData.nonce,
       timestamp: paymentData.timestamp,
+      validAfter: paymentData.validAfter,
+      validBefore: paymentData.validBefore,
       network: requirements.network,
       resource: requirements.resource,
     });
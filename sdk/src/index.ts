@@ -11,6 +11,7 @@ export type {
   SupportedPayment,
   ErrorResponse,
   PaymentPayload,
+  PaymentReceipt,
   PolkadotSigner,
 } from './types';
 
@@ -26,6 +27,7 @@ export type { NetworkConfig, NetworkId } from './networks/types';
 
 // Facilitator functions
 export { verifyX402Payment } from './facilitator/verify';
+export type { VerifyOptions } from './facilitator/verify';
 export { settleX402Payment } from './facilitator/settle';
 export {
   getSupportedPayments,
@@ -71,6 +73,18 @@ export {
   getAccountBalance,
 } from './utils/substrate';
 
+export {
+  createAuthorizationWindow,
+  checkAuthorizationWindow,
+  DEFAULT_MAX_TIMEOUT_SECONDS,
+  DEFAULT_CLOCK_SKEW_SECONDS,
+} from './utils/authorization';
+
+export type { AuthorizationWindow } from './utils/authorization';
+
+export { verifyReceipt } from './utils/receipt';
+export type { ReceiptVerificationResult } from './utils/receipt';
+
 export {
   validatePaymentRequirements,
   validateVerifyRequest,
@@ -58,6 +58,26 @@ export interface SettlementResult {
   success: boolean;
   transactionHash?: string;
   error?: string;
+  receipt?: string; // Signed payment receipt (JWS), see verifyReceipt
+}
+
+/**
+ * Claims of a signed payment receipt
+ */
+export interface PaymentReceipt {
+  iss: string; // Facilitator address that signed the receipt
+  iat: number; // Unix seconds the receipt was issued
+  network: string;
+  payer: string;
+  payee: string;
+  amount: string; // Amount settled, in the asset's smallest unit
+  fee?: { recipient: string; amount: string }; // Facilitator fee taken out of the amount
+  asset: string;
+  resource: string;
+  nonce: string; // Authorization nonce
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number; // Block timestamp (unix seconds)
 }
 
 /**
@@ -88,6 +108,8 @@ export interface PaymentPayload {
   amount: string;
   nonce: string;
   timestamp: number;
+  validAfter: number;
+  validBefore: number;
   signature: string;
 }
 
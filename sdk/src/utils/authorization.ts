@@ -0,0 +1,69 @@
+/**
+ * Payment authorization validity windows
+ */
+
+import type { PaymentRequirements } from '../types';
+
+/**
+ * Default authorization lifetime when requirements omit maxTimeoutSeconds
+ */
+export const DEFAULT_MAX_TIMEOUT_SECONDS = 300;
+
+/**
+ * Default clock-skew tolerance between buyer, facilitator and chain
+ */
+export const DEFAULT_CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Validity window of an authorization (unix seconds)
+ */
+export interface AuthorizationWindow {
+  validAfter: number;
+  validBefore: number;
+}
+
+/**
+ * Build the validity window a buyer should sign for the given requirements
+ */
+export function createAuthorizationWindow(
+  requirements: PaymentRequirements,
+  clockSkewSeconds: number = DEFAULT_CLOCK_SKEW_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): AuthorizationWindow {
+  return {
+    validAfter: now - clockSkewSeconds,
+    validBefore: now + (requirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS),
+  };
+}
+
+/**
+ * Check a signed validity window against the current time and maxTimeoutSeconds
+ * Returns an error message, or null if the window is acceptable
+ */
+export function checkAuthorizationWindow(
+  window: AuthorizationWindow,
+  requirements: PaymentRequirements,
+  clockSkewSeconds: number = DEFAULT_CLOCK_SKEW_SECONDS,
+  now: number = Math.floor(Date.now() / 1000)
+): string | null {
+  const { validAfter, validBefore } = window;
+
+  if (!Number.isFinite(validAfter) || !Number.isFinite(validBefore) || validBefore <= validAfter) {
+    return 'Invalid authorization window.';
+  }
+
+  if (now + clockSkewSeconds < validAfter) {
+    return 'Payment authorization is not yet valid.';
+  }
+
+  if (now - clockSkewSeconds >= validBefore) {
+    return 'Payment authorization expired.';
+  }
+
+  const maxTimeout = requirements.maxTimeoutSeconds || DEFAULT_MAX_TIMEOUT_SECONDS;
+  if (validBefore > now + maxTimeout + clockSkewSeconds) {
+    return `Authorization window exceeds maxTimeoutSeconds (${maxTimeout}s).`;
+  }
+
+  return null;
+}
@@ -46,6 +46,8 @@ export function createPaymentHash(requirements: {
   amount: string;
   nonce: string;
   timestamp: number;
+  validAfter: number;
+  validBefore: number;
   network: string;
   resource?: string;
 }): Uint8Array {
@@ -62,6 +64,8 @@ export function createPaymentHash(requirements: {
       amount: requirements.amount,
       nonce: requirements.nonce,
       timestamp: requirements.timestamp,
+      validAfter: requirements.validAfter,
+      validBefore: requirements.validBefore,
       resource: requirements.resource || '',
     },
     primaryType: 'Payment',
@@ -77,6 +81,8 @@ export function createPaymentHash(requirements: {
         { name: 'amount', type: 'string' },
         { name: 'nonce', type: 'string' },
         { name: 'timestamp', type: 'uint256' },
+        { name: 'validAfter', type: 'uint256' },
+        { name: 'validBefore', type: 'uint256' },
         { name: 'resource', type: 'string' },
       ],
     },
@@ -94,6 +100,8 @@ export function encodePaymentPayload(payload: {
   amount: string;
   nonce: string;
   timestamp: number;
+  validAfter: number;
+  validBefore: number;
   signature: string;
 }): string {
   const data = JSON.stringify(payload);
@@ -109,6 +117,8 @@ export function decodePaymentPayload(payloadHex: string): {
   amount: string;
   nonce: string;
   timestamp: number;
+  validAfter: number;
+  validBefore: number;
   signature: string;
 } | null {
   try {
@@ -0,0 +1,103 @@
+/**
+ * Payment receipt verification
+ * Receipts are compact JWS tokens (alg ES256K-R) signed by the facilitator's EVM key,
+ * so they can be checked offline against the facilitator address
+ * (`extra.receiptSigner` in the facilitator's /supported response)
+ */
+
+import { u8aToHex, u8aToString } from '@polkadot/util';
+import { base64Decode, cryptoWaitReady, keccakAsU8a, secp256k1Recover, sha256AsU8a } from '@polkadot/util-crypto';
+import type { PaymentReceipt } from '../types';
+
+/**
+ * Result of verifying a receipt
+ */
+export type ReceiptVerificationResult =
+  | { valid: true; receipt: PaymentReceipt }
+  | { valid: false; error: string };
+
+/**
+ * Decode a base64url string
+ */
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64Decode(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+/**
+ * Compare an expected claim with the receipt's (addresses and hashes ignore case)
+ * Objects such as `fee` match when every field does
+ */
+function claimMatches(expected: unknown, actual: unknown): boolean {
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.toLowerCase() === actual.toLowerCase();
+  }
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object') {
+    const fields = Object.keys(expected);
+    return fields.length === Object.keys(actual).length && fields.every((field) =>
+      claimMatches((expected as Record<string, unknown>)[field], (actual as Record<string, unknown>)[field])
+    );
+  }
+  return expected === actual;
+}
+
+/**
+ * Verify a payment receipt
+ * Checks that it was signed by `facilitatorAddress` and, when given, that it
+ * matches the expected payment fields (e.g. payee, amount, resource, fee)
+ */
+export async function verifyReceipt(
+  receipt: string,
+  facilitatorAddress: string,
+  expected: Partial<PaymentReceipt> = {}
+): Promise<ReceiptVerificationResult> {
+  const [encodedHeader, encodedClaims, encodedSignature, ...rest] = receipt.split('.');
+  if (!encodedHeader || !encodedClaims || !encodedSignature || rest.length > 0) {
+    return { valid: false, error: 'Malformed receipt' };
+  }
+
+  let header: { alg?: string };
+  let claims: PaymentReceipt;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(u8aToString(base64UrlDecode(encodedHeader)));
+    claims = JSON.parse(u8aToString(base64UrlDecode(encodedClaims)));
+    signature = base64UrlDecode(encodedSignature);
+  } catch {
+    return { valid: false, error: 'Malformed receipt' };
+  }
+
+  if (header.alg !== 'ES256K-R') {
+    return { valid: false, error: `Unsupported receipt algorithm: ${header.alg}` };
+  }
+  if (signature.length !== 65) {
+    return { valid: false, error: 'Invalid receipt signature length' };
+  }
+
+  let signer: string;
+  try {
+    // Key recovery uses the WASM backend
+    await cryptoWaitReady();
+    const digest = sha256AsU8a(`${encodedHeader}.${encodedClaims}`);
+    // Uncompressed public key without prefix; the address is the last 20 bytes of its keccak hash
+    const publicKey = secp256k1Recover(digest, signature.subarray(0, 64), signature[64], 'keccak');
+    signer = u8aToHex(keccakAsU8a(publicKey).subarray(-20));
+  } catch {
+    return { valid: false, error: 'Invalid receipt signature' };
+  }
+
+  if (signer.toLowerCase() !== facilitatorAddress.toLowerCase()) {
+    return { valid: false, error: 'Receipt was not signed by the facilitator' };
+  }
+  if (claims.iss?.toLowerCase() !== signer.toLowerCase()) {
+    return { valid: false, error: 'Receipt issuer does not match its signer' };
+  }
+
+  for (const [field, value] of Object.entries(expected)) {
+    if (!claimMatches(value, claims[field as keyof PaymentReceipt])) {
+      return { valid: false, error: `Receipt ${field} does not match` };
+    }
+  }
+
+  return { valid: true, receipt: claims };
+}
@@ -20,6 +20,78 @@ export interface PaymentRequirements {
   extra?: Record<string, any>;
 }
 
+/**
+ * Payment requirements as advertised in an x402 v2 `accepts` entry
+ */
+export interface PaymentRequirementsV2 {
+  scheme: string;
+  network: string; // CAIP-2 chain id, e.g. "eip155:420420422"
+  amount: string;
+  asset: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Body of a 402 Payment Required response (also the v2 PAYMENT-REQUIRED header)
+ */
+export interface PaymentRequiredResponse {
+  x402Version: number;
+  error?: string;
+  accepts: Array<PaymentRequirements | PaymentRequirementsV2>;
+  resource?: {
+    url: string;
+    description?: string;
+    mimeType?: string;
+  }; // v2 only; v1 carries the resource in each accepts entry
+}
+
+/**
+ * Decoded X-PAYMENT (v1) or PAYMENT-SIGNATURE (v2) header
+ */
+export interface PaymentPayload {
+  x402Version: number;
+  scheme?: string; // v1
+  network?: string; // v1
+  accepted?: PaymentRequirementsV2; // v2: the accepts entry the client chose
+  payload: {
+    signature: string;
+    authorization: Record<string, unknown>;
+  };
+}
+
+/**
+ * Spec facilitator request body (POST /verify and /settle), as sent by x402 clients
+ */
+export interface FacilitatorRequest {
+  x402Version?: number;
+  paymentPayload?: PaymentPayload;
+  paymentHeader?: string; // Encoded payment header, accepted instead of paymentPayload
+  paymentRequirements: PaymentRequirements | PaymentRequirementsV2;
+}
+
+/**
+ * Spec verify response
+ */
+export interface FacilitatorVerifyResponse {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+}
+
+/**
+ * Spec settle response (also the X-PAYMENT-RESPONSE / PAYMENT-RESPONSE header)
+ */
+export interface FacilitatorSettleResponse {
+  success: boolean;
+  errorReason?: string;
+  transaction: string;
+  network: string;
+  payer?: string;
+  receipt?: string; // Signed payment receipt (JWS)
+}
+
 /**
  * Verification request payload
  */
@@ -34,6 +106,7 @@ export interface VerifyRequest {
 export interface VerificationResult {
   valid: boolean;
   error?: string;
+  code?: string;
   details?: {
     amount: string;
     token: string;
@@ -50,6 +123,8 @@ export interface VerificationResult {
 export interface SettleRequest {
   payload: string;
   details: PaymentRequirements;
+  mode?: 'sync' | 'async'; // 'async' returns after broadcast with a pending settlement id
+  amount?: string; // "upto" scheme only: amount actually consumed (at most the authorized maximum)
 }
 
 /**
@@ -59,6 +134,90 @@ export interface SettlementResult {
   success: boolean;
   transactionHash?: string;
   error?: string;
+  code?: string;
+  status?: 'pending' | 'confirmed' | 'failed';
+  settlementId?: string; // Poll GET /api/facilitator/settlements/{settlementId} for status
+  blockNumber?: number;
+  replayed?: boolean; // True when an earlier settlement of the same authorization was returned
+  receipt?: string; // Signed payment receipt (JWS), once the settlement is confirmed
+  split?: SettlementSplit; // Present when a facilitator fee was taken
+}
+
+/**
+ * How a settled payment was divided between the seller and the fee recipient
+ */
+export interface SettlementSplit {
+  seller: { address: string; amount: string; transactionHash?: string };
+  fee: {
+    recipient: string;
+    amount: string;
+    transactionHash?: string;
+    // Only for a fee sent as its own transfer; a failed one is re-sent on the next status check
+    status?: 'pending' | 'confirmed' | 'failed';
+    error?: string;
+  };
+}
+
+/**
+ * Refund request payload (POST /api/facilitator/refund)
+ */
+export interface RefundRequest {
+  settlementId: string; // Settlement to refund, as returned by settle
+  amount: string; // Amount to return, in the asset's smallest unit
+  refundId?: string; // Makes retries idempotent; required with a seller signature
+  signature?: string; // Seller's EIP-191 signature of getRefundMessage(), instead of the API key
+}
+
+/**
+ * Refund result
+ */
+export interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  settlementId?: string;
+  amount?: string;
+  refundedAmount?: string; // Total refunded for the settlement, including this refund
+  transactionHash?: string;
+  blockNumber?: number;
+  error?: string;
+  code?: string;
+  replayed?: boolean; // True when an earlier refund with the same refundId was returned
+}
+
+/**
+ * Settlement status (GET /api/facilitator/settlements/[id])
+ */
+export interface SettlementStatusResult {
+  settlementId: string;
+  status: 'pending' | 'confirmed' | 'failed';
+  network?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  confirmations?: number;
+  error?: string;
+  receipt?: string; // Signed payment receipt (JWS), once the settlement is confirmed
+  split?: SettlementSplit; // Present when a facilitator fee was taken
+  refunds?: Array<{ id: string; amount: string; status: 'pending' | 'confirmed' | 'failed'; transactionHash?: string }>;
+}
+
+/**
+ * Claims of a signed payment receipt
+ * The receipt is a compact JWS (alg ES256K-R) signed by the facilitator key
+ */
+export interface PaymentReceipt {
+  iss: string; // Facilitator address that signed the receipt
+  iat: number; // Unix seconds the receipt was issued
+  network: string;
+  payer: string;
+  payee: string;
+  amount: string; // Amount settled, in the asset's smallest unit
+  fee?: { recipient: string; amount: string }; // Facilitator fee taken out of the amount
+  asset: string;
+  resource: string;
+  nonce: string; // Authorization nonce
+  transactionHash: string;
+  blockNumber: number;
+  timestamp: number; // Block timestamp (unix seconds)
 }
 
 /**
@@ -0,0 +1,25 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+const root = fileURLToPath(new URL('.', import.meta.url));
+
+export default defineConfig({
+  resolve: {
+    alias: [{ find: /^@\//, replacement: root }],
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'sdk/**', '.next/**'],
+    testTimeout: 60_000,
+    hookTimeout: 120_000,
+    // lib/env.ts validates these at import; tests never touch a live network
+    env: {
+      FACILITATOR_PRIVATE_KEY: '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+      BUYER_PRIVATE_KEY: '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+      SELLER_ADDRESS: '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+      FACILITATOR_URL: 'http://localhost:3000/api/facilitator',
+      LOG_LEVEL: 'error',
+      OTEL_TRACES_EXPORTER: 'none',
+    },
+  },
+});